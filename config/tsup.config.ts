@@ -10,11 +10,21 @@ const INPUT_FILE_PATH = path.join(PACKAGE_ROOT_PATH, 'src/index.ts');
 const INPUT_FILE = fs.existsSync(INPUT_FILE_PATH)
   ? INPUT_FILE_PATH
   : path.join(PACKAGE_ROOT_PATH, 'src/index.tsx');
+// Optional `<package>/testing` entry point, excluded from the main barrel.
+const TESTING_INPUT_FILE_PATH = path.join(
+  PACKAGE_ROOT_PATH,
+  'src/testing/index.ts'
+);
 
 export default defineConfig((opts) => {
   return {
     ...opts,
-    entry: [INPUT_FILE],
+    entry: {
+      index: INPUT_FILE,
+      ...(fs.existsSync(TESTING_INPUT_FILE_PATH)
+        ? { 'testing/index': TESTING_INPUT_FILE_PATH }
+        : {}),
+    },
     format: ['cjs', 'esm'],
     dts: true,
     sourcemap: true,
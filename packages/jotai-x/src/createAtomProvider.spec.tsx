@@ -0,0 +1,251 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { composeProviders, StoresProvider } from './createAtomProvider';
+import { createAtomStore } from './createAtomStore';
+
+describe('StoresProvider', () => {
+  const userApi = createAtomStore(
+    { name: 'John', age: 42 },
+    { name: 'user' as const }
+  );
+
+  const themeApi = createAtomStore(
+    { theme: 'light' },
+    { name: 'theme' as const }
+  );
+
+  const { useUserStore, UserProvider } = userApi;
+  const { useThemeStore } = themeApi;
+
+  const User = ({ scope }: { scope?: string }) => {
+    const name = useUserStore(scope).get.name();
+    const age = useUserStore(scope).get.age();
+    const theme = useThemeStore().get.theme();
+
+    return (
+      <div>
+        {name} ({age}), {theme}
+      </div>
+    );
+  };
+
+  it('provides several stores with per-store props', () => {
+    const { getByText } = render(
+      <StoresProvider
+        stores={[
+          [userApi, { scope: 'user', initialValues: { name: 'Jane' } }],
+          [themeApi, { theme: 'dark' }],
+        ]}
+      >
+        <User scope="user" />
+      </StoresProvider>
+    );
+
+    expect(getByText('Jane (42), dark')).toBeInTheDocument();
+  });
+
+  it('syncs values and respects nesting order', () => {
+    const { getByText, rerender } = render(
+      <UserProvider scope="outer" age={1}>
+        <StoresProvider stores={[[userApi, { age: 2 }], [themeApi]]}>
+          <User scope="outer" />
+          <User />
+        </StoresProvider>
+      </UserProvider>
+    );
+
+    expect(getByText('John (1), light')).toBeInTheDocument();
+    expect(getByText('John (2), light')).toBeInTheDocument();
+
+    rerender(
+      <UserProvider scope="outer" age={1}>
+        <StoresProvider stores={[[userApi, { age: 3 }], [themeApi]]}>
+          <User scope="outer" />
+          <User />
+        </StoresProvider>
+      </UserProvider>
+    );
+
+    expect(getByText('John (3), light')).toBeInTheDocument();
+  });
+
+  it('later entries are nearer than earlier ones', () => {
+    const { getByText } = render(
+      <StoresProvider
+        stores={[
+          [userApi, { scope: 'first', name: 'First' }],
+          [userApi, { scope: 'second', name: 'Second' }],
+          [themeApi],
+        ]}
+      >
+        <User />
+        <User scope="first" />
+      </StoresProvider>
+    );
+
+    expect(getByText('Second (42), light')).toBeInTheDocument();
+    expect(getByText('First (42), light')).toBeInTheDocument();
+  });
+
+  it('composes providers into a single component', () => {
+    const AppProviders = composeProviders(
+      [userApi, { name: 'Composed' }],
+      [themeApi, { theme: 'dark' }]
+    );
+
+    const SetAge = () => {
+      const setAge = useUserStore().set.age();
+
+      return (
+        <button type="button" onClick={() => setAge(7)}>
+          setAge
+        </button>
+      );
+    };
+
+    const { getByText } = render(
+      <AppProviders>
+        <User />
+        <SetAge />
+      </AppProviders>
+    );
+
+    act(() => getByText('setAge').click());
+
+    expect(getByText('Composed (7), dark')).toBeInTheDocument();
+  });
+
+  it('preserves the props typing of each store', () => {
+    composeProviders(
+      // @ts-expect-error age must be a number
+      [userApi, { age: 'old' }],
+      [themeApi, { theme: 'dark' }]
+    );
+
+    composeProviders(
+      [userApi],
+      // @ts-expect-error name is not a theme store key
+      [themeApi, { name: 'Jane' }]
+    );
+  });
+});
+
+describe('Provider effects', () => {
+  type MyEditorStoreValue = {
+    name: string;
+    ready: boolean;
+  };
+
+  const initialEditorStoreValue: MyEditorStoreValue = {
+    name: 'editor',
+    ready: false,
+  };
+
+  it('renders bare and typed effects', () => {
+    const BareEffect = () => {
+      const setReady = useEditorStore().set.ready();
+
+      React.useEffect(() => setReady(true), [setReady]);
+
+      return null;
+    };
+
+    const { useEditorStore, EditorProvider } = createAtomStore(
+      initialEditorStoreValue,
+      {
+        name: 'editor' as const,
+        effect: [
+          BareEffect,
+          ({ get, set, props, scope }) => {
+            React.useEffect(() => {
+              set.name(
+                `${get.name()} (${scope}, ${props.initialValues?.name})`
+              );
+            }, []);
+
+            return null;
+          },
+        ],
+      }
+    );
+
+    const Editor = () => {
+      const name = useEditorStore().get.name();
+      const ready = useEditorStore().get.ready();
+
+      return (
+        <div>
+          {name}: {String(ready)}
+        </div>
+      );
+    };
+
+    const { getByText } = render(
+      <EditorProvider scope="main" initialValues={{ name: 'doc' }}>
+        <Editor />
+      </EditorProvider>
+    );
+
+    expect(getByText('doc (main, doc): true')).toBeInTheDocument();
+  });
+
+  it('calls the lifecycle callbacks for each store instance', () => {
+    const events: string[] = [];
+    const stores = new Set<unknown>();
+    let effectMounts = 0;
+
+    const { EditorProvider } = createAtomStore(initialEditorStoreValue, {
+      name: 'editor' as const,
+      effect: ({ store }) => {
+        React.useEffect(() => {
+          effectMounts += 1;
+        }, [store]);
+
+        return null;
+      },
+      onInit: (store) => {
+        stores.add(store);
+        events.push('init');
+      },
+      onDispose: (store) => {
+        stores.add(store);
+        events.push('dispose');
+      },
+    });
+
+    const { rerender, unmount } = render(
+      <>
+        <EditorProvider resetKey={1} />
+        <EditorProvider resetKey={1} />
+      </>
+    );
+
+    expect(events).toEqual(['init', 'init']);
+    expect(stores.size).toBe(2);
+
+    rerender(
+      <>
+        <EditorProvider resetKey={2} />
+        <EditorProvider resetKey={1} />
+      </>
+    );
+
+    expect(events).toEqual(['init', 'init', 'dispose', 'init']);
+    expect(effectMounts).toBe(3);
+
+    unmount();
+
+    expect(events).toEqual([
+      'init',
+      'init',
+      'dispose',
+      'init',
+      'dispose',
+      'dispose',
+    ]);
+    expect(stores.size).toBe(2);
+  });
+});
@@ -1,10 +1,43 @@
 'use client';
 
 import React from 'react';
+import { useHydrateAtoms } from 'jotai/utils';
 import { createStore } from 'jotai/vanilla';
 
-import { JotaiStore, SimpleWritableAtomRecord } from './createAtomStore';
-import { useHydrateStore, useSyncStore } from './useHydrateStore';
+import {
+  JotaiStore,
+  SimpleWritableAtom,
+  SimpleWritableAtomRecord,
+} from './createAtomStore';
+import { StoreHistory } from './createStoreHistory';
+import {
+  SnapshotAtomRecord,
+  StoreSerializers,
+  StoreSnapshot,
+  useRehydrateStore,
+} from './dehydrateStore';
+import { LazyProps } from './lazy';
+import { ResetOptions } from './resetStore';
+import { BroadcastOptions, useBroadcastStore } from './useBroadcastStore';
+import {
+  ChangeCallbacks,
+  SyncMode,
+  useChangeCallbacks,
+  useHydrateStore,
+  useSyncStore,
+} from './useHydrateStore';
+import {
+  getInheritedValues,
+  InheritMode,
+  useInheritStore,
+} from './useInheritStore';
+import { PersistOptions, usePersistStore } from './usePersistStore';
+import { DevtoolsOptions, useReduxDevtools } from './useReduxDevtools';
+import {
+  getUrlValues,
+  UrlSyncOptions,
+  useUrlSyncStore,
+} from './useUrlSyncStore';
 
 /**
  * 返回一个字符串，表示完全限定的作用域，由存储名称和作用域组成。
@@ -25,11 +58,55 @@ const AtomStoreContext = React.createContext<Map<string, JotaiStore>>(
   new Map()
 );
 
+/**
+ * 从存储上下文的键中获取存储的作用域（不包括 'provider'），最近的作用域在前。
+ * 上下文中的键按插入顺序排列，Provider 会将自己的键移到最后，因此反转后最近的作用域在前。
+ */
+const getScopesFromKeys = (storeName: string, keys: Iterable<string>) => {
+  const prefix = getFullyQualifiedScope(storeName, '');
+
+  return [...keys]
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length))
+    .filter((scope) => scope !== PROVIDER_SCOPE)
+    .reverse();
+};
+
+/**
+ * 严格模式下找不到作用域时抛出的错误信息，列出可用的作用域。
+ */
+const getMissingScopeMessage = (
+  storeName: string,
+  scope: string,
+  availableScopes: string[]
+) =>
+  `Tried to access jotai store '${storeName}' ${
+    scope === PROVIDER_SCOPE ? '' : `with scope '${scope}' `
+  }outside of a matching provider. Available scopes: ${
+    availableScopes.length > 0 ? availableScopes.join(', ') : 'none'
+  }.`;
+
+/**
+ * Returns the scopes of the mounted providers of a store, nearest first.
+ * Providers without a scope are not included.
+ */
+export const useAvailableScopes = (storeName: string): string[] => {
+  const storeContext = React.useContext(AtomStoreContext);
+
+  return React.useMemo(
+    () => getScopesFromKeys(storeName, storeContext.keys()),
+    [storeContext, storeName]
+  );
+};
+
 /**
  * Tries to find a store in each of the following places, in order:
  * 1. The store context, matching the store name and scope
  * 2. The store context, matching the store name and 'provider' scope
  * 3. Otherwise, return undefined
+ *
+ * In strict mode, an error listing the available scopes is thrown instead of
+ * falling back to the 'provider' scope or returning undefined.
  * 
  * 尝试在以下位置按顺序查找存储：
  *    存储上下文，匹配存储名称和作用域。
@@ -39,13 +116,29 @@ const AtomStoreContext = React.createContext<Map<string, JotaiStore>>(
 export const useAtomStore = (
   storeName: string,
   scope: string = PROVIDER_SCOPE,
-  warnIfUndefined: boolean = true
+  warnIfUndefined: boolean = true,
+  strict: boolean = false
 ): JotaiStore | undefined => {
   // 使用 React.useContext 钩子获取存储上下文。
   const storeContext = React.useContext(AtomStoreContext);
+  const scopedStore = storeContext.get(
+    getFullyQualifiedScope(storeName, scope)
+  );
+
+  // 严格模式下不回退到 'provider' 作用域
+  if (strict && !scopedStore) {
+    throw new Error(
+      getMissingScopeMessage(
+        storeName,
+        scope,
+        getScopesFromKeys(storeName, storeContext.keys())
+      )
+    );
+  }
+
   // 尝试在存储上下文中查找完全限定作用域的存储，如果找不到，则尝试查找存储名称和 'provider' 作用域的存储。
   const store =
-    storeContext.get(getFullyQualifiedScope(storeName, scope)) ??
+    scopedStore ??
     storeContext.get(getFullyQualifiedScope(storeName, PROVIDER_SCOPE));
 
   // 如果找不到存储并且 warnIfUndefined 为真，则打印警告信息。
@@ -60,18 +153,180 @@ export const useAtomStore = (
 };
 
 /**
- * 定义了提供者组件的属性类型。
+ * 已挂载的 Provider 的存储，按完全限定的作用域分组。
+ * order 是 Provider 首次渲染的顺序，父 Provider 先于子 Provider 渲染，因此 order 最大的存储就是最近（最内层）的存储。
+ * 用于在 React 之外（例如事件处理函数或服务中）按作用域查找存储。
  */
-export type ProviderProps<T extends object> = Partial<T> & {
-  store?: JotaiStore;
-  scope?: string;
-  initialValues?: Partial<T>;
-  resetKey?: any;
-  children: React.ReactNode;
+const mountedStores = new Map<string, { store: JotaiStore; order: number }[]>();
+let providerRenderOrder = 0;
+
+/**
+ * 注册一个已挂载的存储，返回一个用于取消注册的函数。
+ */
+const registerMountedStore = (
+  fullyQualifiedScope: string,
+  store: JotaiStore,
+  order: number
+) => {
+  const entry = { store, order };
+  const entries = mountedStores.get(fullyQualifiedScope) ?? [];
+  mountedStores.set(fullyQualifiedScope, [...entries, entry]);
+
+  return () => {
+    const remainingEntries = (
+      mountedStores.get(fullyQualifiedScope) ?? []
+    ).filter((mountedEntry) => mountedEntry !== entry);
+
+    if (remainingEntries.length > 0) {
+      mountedStores.set(fullyQualifiedScope, remainingEntries);
+    } else {
+      mountedStores.delete(fullyQualifiedScope);
+    }
+  };
 };
 
+/**
+ * 以 Provider 的方式注册一个存储：注册到指定的作用域，同时注册到 'provider' 作用域。
+ */
+const registerProviderStore = (
+  storeName: string,
+  scope: string | undefined,
+  store: JotaiStore,
+  order: number
+) => {
+  const unregisterScope = scope
+    ? registerMountedStore(
+        getFullyQualifiedScope(storeName, scope),
+        store,
+        order
+      )
+    : undefined;
+  const unregisterProvider = registerMountedStore(
+    getFullyQualifiedScope(storeName, PROVIDER_SCOPE),
+    store,
+    order
+  );
+
+  return () => {
+    unregisterScope?.();
+    unregisterProvider();
+  };
+};
+
+/**
+ * Register a store as if the innermost provider with the given scope was
+ * mounted, so that lookups outside of React find it. Returns a function that
+ * unregisters the store.
+ */
+export const mountAtomStore = (
+  storeName: string,
+  store: JotaiStore,
+  scope?: string
+) => registerProviderStore(storeName, scope, store, ++providerRenderOrder);
+
+/**
+ * Non-React counterpart of `useAtomStore`. Returns the store of the innermost
+ * (most recently rendered) mounted provider matching the store name and scope,
+ * falling back to the 'provider' scope. Returns undefined if no such provider
+ * is mounted. In strict mode, an error listing the mounted scopes is thrown
+ * instead.
+ */
+export const getAtomStore = (
+  storeName: string,
+  scope: string = PROVIDER_SCOPE,
+  strict: boolean = false
+): JotaiStore | undefined => {
+  const scopedEntries = mountedStores.get(
+    getFullyQualifiedScope(storeName, scope)
+  );
+
+  if (strict && !scopedEntries) {
+    const availableScopes = [...mountedStores.entries()]
+      .map(([key, entries]) => ({
+        key,
+        order: Math.max(...entries.map((entry) => entry.order)),
+      }))
+      .sort((a, b) => a.order - b.order)
+      .map(({ key }) => key);
+
+    throw new Error(
+      getMissingScopeMessage(
+        storeName,
+        scope,
+        getScopesFromKeys(storeName, availableScopes)
+      )
+    );
+  }
+
+  const entries =
+    scopedEntries ??
+    mountedStores.get(getFullyQualifiedScope(storeName, PROVIDER_SCOPE));
+
+  let latestEntry: { store: JotaiStore; order: number } | undefined;
+
+  for (const entry of entries ?? []) {
+    if (!latestEntry || entry.order > latestEntry.order) {
+      latestEntry = entry;
+    }
+  }
+
+  return latestEntry?.store;
+};
+
+/**
+ * 将存储添加到存储上下文中，返回新的存储上下文。
+ * 先删除再设置，使最近的 Provider 的键位于最后，见 useAvailableScopes。
+ */
+const addToStoreContext = (
+  previousStoreContext: Map<string, JotaiStore>,
+  storeName: string,
+  scope: string | undefined,
+  store: JotaiStore
+) => {
+  const newStoreContext = new Map(previousStoreContext);
+
+  if (scope) {
+    // Make the store findable by its fully qualified scope
+    newStoreContext.delete(getFullyQualifiedScope(storeName, scope));
+    newStoreContext.set(getFullyQualifiedScope(storeName, scope), store);
+  }
+
+  // 所以这里我们可以看到 如果没有作用域的话 ，存储上下文会默认使用 'provider' 作用域
+  // Make the store findable by its store name alone
+  newStoreContext.delete(getFullyQualifiedScope(storeName, PROVIDER_SCOPE));
+  newStoreContext.set(getFullyQualifiedScope(storeName, PROVIDER_SCOPE), store);
+
+  return newStoreContext;
+};
+
+/**
+ * 每个 Provider 的内部实现，StoresProvider 用它在一个上下文更新中提供多个存储。
+ */
+const providerInternals = new WeakMap<
+  object,
+  { storeName: string; ProviderContent: React.FC<any> }
+>();
+
+/**
+ * 定义了提供者组件的属性类型。
+ */
+export type ProviderProps<T extends object> = Partial<T> &
+  ChangeCallbacks<T> & {
+    // 外部创建的存储，例如 `<name>Store.createStore()` 创建的存储，或多个 React 根共享的存储。
+    store?: JotaiStore;
+    scope?: string;
+    initialValues?: Partial<T>;
+    resetKey?: any;
+    // 由 `<name>Store.dehydrate` 生成的快照，优先于 initialValues。
+    snapshot?: StoreSnapshot;
+    // 嵌套时从最近的同名父存储继承未指定的键，false 表示不继承。
+    inherit?: InheritMode | false;
+    children: React.ReactNode;
+  };
+
 /**
  * 使用 useHydrateStore 和 useSyncStore 钩子来初始化和同步原子状态。
+ * 快照中的值先被恢复，因此优先于 initialValues。
  * @param param0 
  * @returns 
  */
@@ -80,20 +335,56 @@ export const HydrateAtoms = <T extends object>({
   children,
   store,
   atoms,
+  snapshot,
+  snapshotAtoms = atoms,
+  serializers,
+  syncMode,
   ...props
 }: Omit<ProviderProps<T>, 'scope'> & {
   atoms: SimpleWritableAtomRecord<T>;
+  snapshotAtoms?: SnapshotAtomRecord;
+  serializers?: StoreSerializers<any>;
+  syncMode?: SyncMode;
 }) => {
+  useRehydrateStore(snapshotAtoms, snapshot, serializers, { store });
   useHydrateStore(atoms, { ...initialValues, ...props } as any, {
     store,
   });
   useSyncStore(atoms, props as any, {
     store,
+    syncMode,
+  });
+  useChangeCallbacks(atoms, props, {
+    store,
+    syncMode,
   });
 
   return <>{children}</>;
 };
 
+/**
+ * 从持久化存储中恢复原子状态，恢复完成之前不渲染子组件。
+ */
+const PersistAtoms = <T extends object>({
+  storeName,
+  scope,
+  store,
+  atoms,
+  persist,
+  children,
+}: {
+  storeName: string;
+  scope?: string;
+  store: JotaiStore;
+  atoms: SimpleWritableAtomRecord<T>;
+  persist: PersistOptions<T>;
+  children: React.ReactNode;
+}) => {
+  const hydrated = usePersistStore(atoms, persist, { store, storeName, scope });
+
+  return hydrated ? <>{children}</> : null;
+};
+
 /**
  * Creates a generic provider for a jotai store.
  * - `initialValues`: Initial values for the store.
@@ -111,56 +402,403 @@ export const HydrateAtoms = <T extends object>({
 export const createAtomProvider = <T extends object, N extends string = ''>(
   storeScope: N,
   atoms: SimpleWritableAtomRecord<T>,
-  options: { effect?: React.FC } = {}
+  options: {
+    effect?: React.FC<any> | React.FC<any>[];
+    // 返回传给 effect 组件的绑定到存储的 get 和 set。
+    getEffectHelpers?: (store: JotaiStore) => object;
+    onInit?: (store: JotaiStore) => void;
+    onDispose?: (store: JotaiStore) => void;
+    persist?: PersistOptions<T>;
+    broadcast?: BroadcastOptions<T>;
+    urlSync?: UrlSyncOptions<T>;
+    // 嵌套 Provider 默认的继承方式，可以被 inherit 属性覆盖。
+    inherit?: InheritMode;
+    devtools?: boolean | DevtoolsOptions;
+    history?: StoreHistory;
+    snapshotAtoms?: SnapshotAtomRecord;
+    serializers?: StoreSerializers<any>;
+    reset?: (
+      store: JotaiStore,
+      keys?: string[],
+      options?: ResetOptions
+    ) => void;
+    syncMode?: SyncMode;
+    // 初始化为 Provider 属性的原子，传给延迟初始值的 initialFactory。
+    propsAtom?: SimpleWritableAtom<LazyProps>;
+  } = {}
 ) => {
-  const Effect = options.effect;
+  const {
+    effect,
+    getEffectHelpers,
+    onInit,
+    onDispose,
+    persist,
+    broadcast,
+    urlSync,
+    inherit: inheritRoot,
+    devtools,
+    history,
+    snapshotAtoms,
+    serializers,
+    reset,
+    syncMode,
+    propsAtom,
+  } = options;
+
+  const effects = effect ? [effect].flat() : [];
 
-  // 这个返回的是一个函数
-  // eslint-disable-next-line react/display-name
-  return ({ store, scope, children, resetKey, ...props }: ProviderProps<T>) => {
-    const [storeState, setStoreState] =
-      React.useState<JotaiStore>(createStore());
+  /**
+   * Provider 除上下文之外的部分：重置、注册、DevTools、历史、初始化和同步。
+   * Provider 和 StoresProvider 共用这个组件。
+   */
+  const ProviderContent = ({
+    store: storeState,
+    children,
+    recreateStore,
+    parentStore,
+    ...providerProps
+  }: Omit<ProviderProps<T>, 'store'> & {
+    store: JotaiStore;
+    recreateStore: () => void;
+    // 最近的同名父 Provider 的存储
+    parentStore?: JotaiStore;
+  }) => {
+    const { scope, resetKey, inherit = inheritRoot, ...props } = providerProps;
+    const resetKeyRef = React.useRef(resetKey);
+    // 原地重置的次数，用于重新挂载 effect 组件
+    const [resetCount, setResetCount] = React.useState(0);
+
+    // 在子组件读取延迟初始值之前，用每个存储的第一组 Provider 属性初始化
+    useHydrateAtoms(propsAtom ? [[propsAtom, providerProps]] : [], {
+      store: storeState,
+    });
 
     React.useEffect(() => {
-      // 这里很明显  resetKey只是作为一个标志，当resetKey发生变化时，重新创建一个store
-      if (resetKey) {
-        setStoreState(createStore());
+      // resetKey 只是作为一个标志，当 resetKey 发生变化时，原地重置存储，保留初始化和同步的值
+      if (resetKeyRef.current === resetKey) return;
+
+      resetKeyRef.current = resetKey;
+
+      if (reset) {
+        // 原地重置视为存储的一个新实例
+        onDispose?.(storeState);
+        reset(storeState);
+        // 撤销/重做历史也属于旧的实例
+        if (history) storeState.set(history.clearAtom);
+        onInit?.(storeState);
+        setResetCount((count) => count + 1);
+      } else {
+        recreateStore();
       }
     }, [resetKey]);
 
-    const previousStoreContext = React.useContext(AtomStoreContext);
+    // 每个 Provider 的存储实例都调用一次 onInit，卸载或替换存储时调用 onDispose
+    React.useEffect(() => {
+      onInit?.(storeState);
 
-    const storeContext = React.useMemo(() => {
-      const newStoreContext = new Map(previousStoreContext);
+      return () => onDispose?.(storeState);
+    }, [storeState]);
 
-      if (scope) {
-        // Make the store findable by its fully qualified scope
-        newStoreContext.set(
-          getFullyQualifiedScope(storeScope, scope),
-          storeState
-        );
-      }
+    const effectHelpers = React.useMemo(
+      () => getEffectHelpers?.(storeState),
+      [storeState]
+    );
 
-      // 所以这里我们可以看到 如果没有作用域的话 ，存储上下文会默认使用 'provider' 作用域
-      // Make the store findable by its store name alone
-      newStoreContext.set(
-        getFullyQualifiedScope(storeScope, PROVIDER_SCOPE),
-        storeState
-      );
+    const [renderOrder] = React.useState(() => ++providerRenderOrder);
+
+    React.useEffect(
+      () => registerProviderStore(storeScope, scope, storeState, renderOrder),
+      [renderOrder, scope, storeState]
+    );
 
-      return newStoreContext;
-    }, [previousStoreContext, scope, storeState]);
+    // 每个 Provider 实例都作为一个单独的 DevTools 实例
+    useReduxDevtools(atoms, devtools, {
+      store: storeState,
+      storeName: storeScope,
+      scope,
+    });
+
+    // 每个 Provider 的存储按存储名称和作用域与其他标签页同步
+    useBroadcastStore(atoms, broadcast, {
+      store: storeState,
+      storeName: storeScope,
+      scope,
+    });
+
+    // URL 中的值与 initialValues 一样参与初始化，每个存储只读取一次
+    const urlValues = React.useMemo(
+      () => urlSync && getUrlValues(storeState, atoms, urlSync),
+      [storeState]
+    );
+
+    // URL 中移除的参数将对应的键重置为 initialState 中的值
+    useUrlSyncStore(atoms, urlSync, {
+      store: storeState,
+      resetKeys: (keys) => reset?.(storeState, keys, { baseline: 'initial' }),
+    });
+
+    // 父存储的值最先参与初始化，initialValues、URL 中的值和属性都优先于它们
+    const inheritedValues = React.useMemo(
+      () =>
+        inherit && parentStore && parentStore !== storeState
+          ? getInheritedValues(parentStore, atoms)
+          : undefined,
+      [storeState]
+    );
+
+    const initialValues = {
+      ...inheritedValues,
+      ...props.initialValues,
+      ...urlValues,
+    };
+
+    // live 模式下，在子存储中指定的键不再与父存储同步
+    const [overriddenKeys] = React.useState(() =>
+      Object.keys(atoms).filter(
+        (key) =>
+          (props.snapshot && key in props.snapshot) ||
+          [{ ...props.initialValues, ...urlValues }, props].some(
+            (values) => (values as any)[key] !== undefined
+          )
+      )
+    );
+
+    useInheritStore(atoms, inherit || undefined, {
+      store: storeState,
+      parentStore,
+      overriddenKeys,
+    });
+
+    // 每个 Provider 的存储都有自己的撤销/重做历史
+    React.useEffect(() => history?.track(storeState), [storeState]);
+
+    const content = (
+      <>
+        <React.Fragment key={resetCount}>
+          {effects.map((Effect, index) => (
+            <Effect
+              key={index}
+              store={storeState}
+              scope={scope}
+              props={providerProps}
+              {...effectHelpers}
+            />
+          ))}
+        </React.Fragment>
+
+        {children}
+      </>
+    );
 
-    // 返回一个 React 组件，该组件创建一个新的 Jotai 存储上下文，并将原子存储添加到上下文中。
     // 使用 HydrateAtoms 组件来初始化和同步原子状态。
     return (
-      <AtomStoreContext.Provider value={storeContext}>
-        <HydrateAtoms store={storeState} atoms={atoms} {...(props as any)}>
-          {!!Effect && <Effect />}
+      <HydrateAtoms
+        store={storeState}
+        atoms={atoms}
+        snapshotAtoms={snapshotAtoms}
+        serializers={serializers}
+        syncMode={syncMode}
+        {...(props as any)}
+        initialValues={initialValues}
+      >
+        {persist ? (
+          <PersistAtoms
+            storeName={storeScope}
+            scope={scope}
+            store={storeState}
+            atoms={atoms}
+            persist={persist}
+          >
+            {content}
+          </PersistAtoms>
+        ) : (
+          content
+        )}
+      </HydrateAtoms>
+    );
+  };
+
+  const Provider = ({ store, ...props }: ProviderProps<T>) => {
+    // 传入 store 属性时使用外部创建的存储，否则使用 Provider 自己的存储
+    const [ownStore, setOwnStore] = React.useState<JotaiStore>(() =>
+      createStore()
+    );
+    const storeState = store ?? ownStore;
+
+    const previousStoreContext = React.useContext(AtomStoreContext);
+
+    const storeContext = React.useMemo(
+      () =>
+        addToStoreContext(
+          previousStoreContext,
+          storeScope,
+          props.scope,
+          storeState
+        ),
+      [previousStoreContext, props.scope, storeState]
+    );
 
-          {children}
-        </HydrateAtoms>
+    // 返回一个 React 组件，该组件创建一个新的 Jotai 存储上下文，并将原子存储添加到上下文中。
+    return (
+      <AtomStoreContext.Provider value={storeContext}>
+        <ProviderContent
+          store={storeState}
+          recreateStore={() => setOwnStore(createStore())}
+          parentStore={previousStoreContext.get(
+            getFullyQualifiedScope(storeScope, PROVIDER_SCOPE)
+          )}
+          {...props}
+        />
       </AtomStoreContext.Provider>
     );
   };
+
+  providerInternals.set(Provider, {
+    storeName: storeScope,
+    ProviderContent: ProviderContent as React.FC<any>,
+  });
+
+  return Provider;
+};
+
+/**
+ * 与 createAtomStore 返回的对象兼容的类型，只用于从中找到 Provider。
+ */
+type AnyAtomStoreApi = { name: string };
+
+/**
+ * 存储的 Provider 的属性（不包括 children）。
+ */
+export type StoreProviderProps<S extends AnyAtomStoreApi> = S[`${Capitalize<
+  S['name']
+>}Provider` &
+  keyof S] extends React.FC<infer P>
+  ? Omit<P, 'children'>
+  : never;
+
+/**
+ * StoresProvider 的一项：createAtomStore 返回的对象，以及可选的 Provider 属性。
+ */
+export type StoreProviderEntry<S extends AnyAtomStoreApi> = readonly [
+  store: S,
+  props?: StoreProviderProps<S>,
+];
+
+/**
+ * 从 createAtomStore 返回的对象中找到 Provider 的内部实现。
+ */
+const getProviderInternals = (storeApi: AnyAtomStoreApi) => {
+  for (const value of Object.values<unknown>(storeApi)) {
+    const internals =
+      typeof value === 'function' ? providerInternals.get(value) : undefined;
+
+    if (internals) return internals;
+  }
+
+  throw new Error(
+    `Tried to provide jotai store '${storeApi.name}' that was not created by createAtomStore.`
+  );
+};
+
+/**
+ * Provides several atom stores in one component. Each entry is the object
+ * returned by `createAtomStore` and optional Provider props. Unlike nested
+ * Providers, all stores are added to the store context in a single update;
+ * later entries are nearer than earlier ones.
+ *
+ * The entries should not be reordered between renders.
+ */
+export const StoresProvider = <S extends AnyAtomStoreApi[]>({
+  stores,
+  children,
+}: {
+  stores: [...{ [I in keyof S]: StoreProviderEntry<S[I]> }];
+  children: React.ReactNode;
+}) => {
+  const entries = (stores as StoreProviderEntry<AnyAtomStoreApi>[]).map(
+    ([storeApi, props = {}]) => ({
+      internals: getProviderInternals(storeApi),
+      props: props as Omit<ProviderProps<object>, 'children'>,
+    })
+  );
+
+  // 每一项都有自己的存储，除非传入了 store 属性
+  const ownStoresRef = React.useRef<JotaiStore[]>([]);
+  const [, rerender] = React.useReducer((count: number) => count + 1, 0);
+  const storeStates = entries.map(
+    ({ props }, index) =>
+      props.store ?? (ownStoresRef.current[index] ??= createStore())
+  );
+
+  const previousStoreContext = React.useContext(AtomStoreContext);
+
+  const storeContext = React.useMemo(
+    () =>
+      entries.reduce(
+        (context, { internals, props }, index) =>
+          addToStoreContext(
+            context,
+            internals.storeName,
+            props.scope,
+            storeStates[index]
+          ),
+        previousStoreContext
+      ),
+    [
+      previousStoreContext,
+      ...entries.flatMap(({ internals, props }, index) => [
+        internals,
+        props.scope,
+        storeStates[index],
+      ]),
+    ]
+  );
+
+  // 从最后一项开始向外包装，因此第一项是最外层
+  const content = entries.reduceRight<React.ReactNode>(
+    (innerContent, { internals, props }, index) => {
+      const { ProviderContent } = internals;
+
+      return (
+        <ProviderContent
+          key={index}
+          {...props}
+          store={storeStates[index]}
+          parentStore={previousStoreContext.get(
+            getFullyQualifiedScope(internals.storeName, PROVIDER_SCOPE)
+          )}
+          recreateStore={() => {
+            ownStoresRef.current[index] = createStore();
+            rerender();
+          }}
+        >
+          {innerContent}
+        </ProviderContent>
+      );
+    },
+    children
+  );
+
+  return (
+    <AtomStoreContext.Provider value={storeContext}>
+      {content}
+    </AtomStoreContext.Provider>
+  );
+};
+
+/**
+ * Composes several atom stores into a single Provider component. See
+ * `StoresProvider`.
+ *
+ * @example
+ * const AppProviders = composeProviders([userStore, { scope: 'app' }], [themeStore]);
+ */
+export const composeProviders = <S extends AnyAtomStoreApi[]>(
+  ...stores: [...{ [I in keyof S]: StoreProviderEntry<S[I]> }]
+) => {
+  const ComposedProviders = ({ children }: { children: React.ReactNode }) => (
+    <StoresProvider stores={stores}>{children}</StoresProvider>
+  );
+
+  return ComposedProviders;
 };
@@ -2,9 +2,11 @@ import '@testing-library/jest-dom';
 
 import React from 'react';
 import { act, queryByText, render, renderHook } from '@testing-library/react';
-import { atom, PrimitiveAtom, useAtomValue } from 'jotai';
+import { atom, createStore, PrimitiveAtom, useAtomValue } from 'jotai';
 import { splitAtom } from 'jotai/utils';
+import { getDefaultStore } from 'jotai/vanilla';
 
+import { useAvailableScopes } from './createAtomProvider';
 import { createAtomStore } from './createAtomStore';
 
 describe('createAtomStore', () => {
@@ -280,10 +282,38 @@ describe('createAtomStore', () => {
       age: null,
     };
 
-    const { useMyScopedTestStoreStore, MyScopedTestStoreProvider } =
-      createAtomStore(initialScopedTestStoreValue, {
-        name: 'myScopedTestStore' as const,
-      });
+    const {
+      myScopedTestStoreStore,
+      useMyScopedTestStoreStore,
+      MyScopedTestStoreProvider,
+    } = createAtomStore(initialScopedTestStoreValue, {
+      name: 'myScopedTestStore' as const,
+    });
+
+    const {
+      useMyStrictTestStoreStore,
+      MyStrictTestStoreProvider,
+      myStrictTestStoreStore,
+    } = createAtomStore(initialScopedTestStoreValue, {
+      name: 'myStrictTestStore' as const,
+      strict: true,
+    });
+
+    const StrictConsumer = ({ scope }: { scope?: string }) => {
+      const age = useMyStrictTestStoreStore(scope).get.age();
+
+      return (
+        <div>
+          <span>{JSON.stringify(age)}</span>
+        </div>
+      );
+    };
+
+    const AvailableScopes = () => {
+      const scopes = useAvailableScopes('myScopedTestStore');
+
+      return <div>scopes: {scopes.join(',')}</div>;
+    };
 
     const ReadOnlyConsumer = ({ scope }: { scope: string }) => {
       const age = useMyScopedTestStoreStore().get.age({ scope });
@@ -360,6 +390,95 @@ describe('createAtomStore', () => {
 
       expect(getByText('4')).toBeInTheDocument();
     });
+
+    it('throws in strict mode when scope matches no provider', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() =>
+        render(
+          <MyScopedTestStoreProvider scope="scope1" age={1}>
+            <MyScopedTestStoreProvider scope="scope2" age={2}>
+              <MyScopedTestStoreProvider age={3}>
+                <StrictConsumer scope="scope3" />
+              </MyScopedTestStoreProvider>
+            </MyScopedTestStoreProvider>
+          </MyScopedTestStoreProvider>
+        )
+      ).toThrow(
+        "Tried to access jotai store 'myStrictTestStore' with scope 'scope3' outside of a matching provider. Available scopes: none."
+      );
+
+      const PerCallStrictConsumer = () => {
+        const age = useMyScopedTestStoreStore().get.age({
+          scope: 'scope3',
+          strict: true,
+        });
+
+        return <div>{age}</div>;
+      };
+
+      expect(() =>
+        render(
+          <MyScopedTestStoreProvider scope="scope1" age={1}>
+            <MyScopedTestStoreProvider scope="scope2" age={2}>
+              <MyScopedTestStoreProvider age={3}>
+                <PerCallStrictConsumer />
+              </MyScopedTestStoreProvider>
+            </MyScopedTestStoreProvider>
+          </MyScopedTestStoreProvider>
+        )
+      ).toThrow('Available scopes: scope2, scope1.');
+
+      jest.mocked(console.error).mockRestore();
+    });
+
+    it('returns value of matching provider in strict mode', () => {
+      const { getByText } = render(
+        <MyStrictTestStoreProvider scope="scope1" age={1}>
+          <MyStrictTestStoreProvider scope="scope2" age={2}>
+            <StrictConsumer scope="scope1" />
+            <StrictConsumer />
+          </MyStrictTestStoreProvider>
+        </MyStrictTestStoreProvider>
+      );
+
+      expect(getByText('1')).toBeInTheDocument();
+      expect(getByText('2')).toBeInTheDocument();
+    });
+
+    it('throws in strict mode outside of React when scope matches no provider', () => {
+      render(
+        <MyStrictTestStoreProvider scope="scope1" age={1}>
+          <MyScopedTestStoreProvider scope="scope2" age={2} />
+        </MyStrictTestStoreProvider>
+      );
+
+      expect(myStrictTestStoreStore.get.age('scope1')).toBe(1);
+      expect(() => myStrictTestStoreStore.get.age('scope2')).toThrow(
+        "Tried to access jotai store 'myStrictTestStore' with scope 'scope2' outside of a matching provider. Available scopes: scope1."
+      );
+      expect(() =>
+        myScopedTestStoreStore.get.age({ scope: 'scope1', strict: true })
+      ).toThrow('Available scopes: scope2.');
+    });
+
+    it('returns available scopes nearest-first', () => {
+      const { getByText } = render(
+        <MyScopedTestStoreProvider scope="scope1" age={1}>
+          <MyScopedTestStoreProvider scope="scope2" age={2}>
+            <MyScopedTestStoreProvider scope="scope3" age={3}>
+              <MyScopedTestStoreProvider scope="scope1" age={4}>
+                <MyScopedTestStoreProvider age={5}>
+                  <AvailableScopes />
+                </MyScopedTestStoreProvider>
+              </MyScopedTestStoreProvider>
+            </MyScopedTestStoreProvider>
+          </MyScopedTestStoreProvider>
+        </MyScopedTestStoreProvider>
+      );
+
+      expect(getByText('scopes: scope1,scope3,scope2')).toBeInTheDocument();
+    });
   });
 
   describe('multiple unrelated stores', () => {
@@ -723,4 +842,623 @@ describe('createAtomStore', () => {
       expect(getByText('feed the dragon')).toBeInTheDocument();
     });
   });
+
+  describe('vanilla store api', () => {
+    type User = {
+      name: string;
+      age: number;
+    };
+
+    const initialUser: User = {
+      name: 'Jane',
+      age: 98,
+    };
+
+    const { userStore, UserProvider } = createAtomStore(initialUser, {
+      name: 'user' as const,
+      extend: ({ name, age }) => ({
+        bio: atom((get) => `${get(name)} is ${get(age)} years old`),
+      }),
+    });
+
+    it('gets and sets values in a given store', () => {
+      const store = createStore();
+
+      userStore.set.name(store, 'John');
+
+      expect(userStore.get.name(store)).toBe('John');
+      expect(userStore.get.bio(store)).toBe('John is 98 years old');
+      expect(userStore.get.atom(store, userStore.atom.age)).toBe(98);
+    });
+
+    it('returns the state of all atoms including extended atoms', () => {
+      const store = createStore();
+
+      userStore.set.atom(store, userStore.atom.age, 42);
+
+      expect(userStore.getState(store)).toEqual({
+        name: 'Jane',
+        age: 42,
+        bio: 'Jane is 42 years old',
+      });
+    });
+
+    it('subscribes to changes', () => {
+      const store = createStore();
+      const listener = jest.fn();
+
+      const unsubscribe = userStore.subscribe.bio(store, listener);
+      userStore.set.age(store, 20);
+      unsubscribe();
+      userStore.set.age(store, 21);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        'Jane is 20 years old',
+        'Jane is 98 years old',
+        store
+      );
+    });
+
+    it('looks up mounted providers by scope', () => {
+      const { getByText } = render(
+        <UserProvider scope="outer" name="Outer">
+          <UserProvider scope="inner" name="Inner">
+            <button type="button" onClick={() => userStore.set.age('outer', 1)}>
+              setOuterAge
+            </button>
+          </UserProvider>
+        </UserProvider>
+      );
+
+      expect(userStore.get.name('outer')).toBe('Outer');
+      expect(userStore.get.name('inner')).toBe('Inner');
+      expect(userStore.get.name()).toBe('Inner');
+
+      act(() => getByText('setOuterAge').click());
+
+      expect(userStore.getState({ scope: 'outer' }).age).toBe(1);
+      expect(userStore.get.age('inner')).toBe(98);
+    });
+  });
+
+  describe('selectors', () => {
+    type Profile = {
+      user: { name: string; age: number };
+      tags: string[];
+    };
+
+    const initialProfile: Profile = {
+      user: { name: 'Jane', age: 98 },
+      tags: ['a'],
+    };
+
+    const { profileStore, useProfileStore, ProfileProvider } = createAtomStore(
+      initialProfile,
+      { name: 'profile' as const }
+    );
+
+    const SetUser = () => {
+      const [user, setUser] = useProfileStore().use.user();
+      const setTags = useProfileStore().set.tags();
+
+      return (
+        <>
+          <button
+            type="button"
+            onClick={() => setUser({ ...user, age: user.age + 1 })}
+          >
+            incrementAge
+          </button>
+          <button
+            type="button"
+            onClick={() => setUser({ ...user, name: 'John' })}
+          >
+            rename
+          </button>
+          <button type="button" onClick={() => setTags(['a'])}>
+            resetTags
+          </button>
+        </>
+      );
+    };
+
+    it('re-renders only when the selected value changes', () => {
+      const renderName = jest.fn();
+
+      const NameConsumer = () => {
+        const name = useProfileStore('profile').get.user((user) => user.name);
+        renderName(name);
+
+        return <div>name: {name}</div>;
+      };
+
+      const { getByText } = render(
+        <ProfileProvider scope="profile">
+          <NameConsumer />
+          <SetUser />
+        </ProfileProvider>
+      );
+
+      const initialRenderCount = renderName.mock.calls.length;
+
+      act(() => getByText('incrementAge').click());
+      expect(renderName).toHaveBeenCalledTimes(initialRenderCount);
+
+      act(() => getByText('rename').click());
+      expect(getByText('name: John')).toBeInTheDocument();
+      expect(renderName).toHaveBeenCalledTimes(initialRenderCount + 1);
+    });
+
+    it('uses a custom equality function', () => {
+      const renderTags = jest.fn();
+      const selectTags = (tags: string[]) => tags;
+      const arrayEqual = (a: string[], b: string[]) =>
+        a.length === b.length && a.every((tag, i) => tag === b[i]);
+
+      const TagsConsumer = () => {
+        const tags = useProfileStore().get.tags(selectTags, arrayEqual);
+        renderTags(tags);
+
+        return <div>{tags.join(',')}</div>;
+      };
+
+      const { getByText } = render(
+        <ProfileProvider>
+          <TagsConsumer />
+          <SetUser />
+        </ProfileProvider>
+      );
+
+      const initialRenderCount = renderTags.mock.calls.length;
+
+      act(() => getByText('resetTags').click());
+      expect(renderTags).toHaveBeenCalledTimes(initialRenderCount);
+    });
+
+    it('selects from an arbitrary atom with options', () => {
+      const AgeConsumer = () => {
+        const age = useProfileStore().get.atom(
+          profileStore.atom.user,
+          (user) => user.age,
+          undefined,
+          { scope: 'inner', deps: [] }
+        );
+
+        return <div>age: {age}</div>;
+      };
+
+      const { getByText } = render(
+        <ProfileProvider scope="inner" user={{ name: 'Jane', age: 1 }}>
+          <ProfileProvider user={{ name: 'Jane', age: 2 }}>
+            <AgeConsumer />
+          </ProfileProvider>
+        </ProfileProvider>
+      );
+
+      expect(getByText('age: 1')).toBeInTheDocument();
+    });
+
+    it('still accepts options without a selector', () => {
+      const { result } = renderHook(() => useProfileStore().get.user('any'), {
+        wrapper: ({ children }) => (
+          <ProfileProvider user={{ name: 'John', age: 1 }}>
+            {children}
+          </ProfileProvider>
+        ),
+      });
+
+      expect(result.current).toEqual({ name: 'John', age: 1 });
+    });
+  });
+
+  describe('actions', () => {
+    type Counter = {
+      count: number;
+      loading: boolean;
+    };
+
+    const initialCounter: Counter = {
+      count: 0,
+      loading: false,
+    };
+
+    const { counterStore, useCounterStore, CounterProvider } = createAtomStore(
+      initialCounter,
+      {
+        name: 'counter' as const,
+        actions: ({ get, set, atoms }) => ({
+          increment: (by = 1) => set(atoms.count, get(atoms.count) + by),
+          load: async (value: Promise<number>) => {
+            set(atoms.loading, true);
+            set(atoms.count, await value);
+            set(atoms.loading, false);
+          },
+        }),
+      }
+    );
+
+    it('binds actions to the store of the provider without re-rendering', () => {
+      let renderCount = 0;
+
+      const Increment = () => {
+        renderCount += 1;
+        const increment = useCounterStore().actions.increment();
+
+        return (
+          <button type="button" onClick={() => increment(2)}>
+            increment
+          </button>
+        );
+      };
+
+      const Count = () => {
+        const count = useCounterStore().get.count();
+        return <div>count: {count}</div>;
+      };
+
+      const { getByText } = render(
+        <CounterProvider>
+          <Count />
+          <Increment />
+        </CounterProvider>
+      );
+
+      act(() => getByText('increment').click());
+      act(() => getByText('increment').click());
+
+      expect(getByText('count: 4')).toBeInTheDocument();
+      expect(renderCount).toBe(1);
+    });
+
+    it('returns stable actions for each store', () => {
+      const store = createStore();
+      const { result, rerender } = renderHook(() =>
+        useCounterStore({ store }).actions.increment()
+      );
+      const first = result.current;
+
+      rerender();
+
+      expect(result.current).toBe(first);
+      expect(counterStore.actions(store).increment).toBe(first);
+      expect(counterStore.actions(createStore()).increment).not.toBe(first);
+    });
+
+    it('supports async actions outside of React', async () => {
+      const store = createStore();
+
+      const promise = counterStore.actions(store).load(Promise.resolve(7));
+      expect(counterStore.get.loading(store)).toBe(true);
+
+      await promise;
+
+      expect(counterStore.getState(store)).toEqual({
+        count: 7,
+        loading: false,
+      });
+    });
+
+    it('does not create actions until a store needs them', () => {
+      const createActions = jest.fn(() => ({ noop: () => {} }));
+      const { useLazyStore } = createAtomStore(
+        { value: 0 },
+        { name: 'lazy' as const, actions: createActions }
+      );
+      const store = createStore();
+
+      expect(createActions).not.toHaveBeenCalled();
+
+      const { result } = renderHook(() =>
+        useLazyStore({ store }).actions.noop()
+      );
+
+      expect(createActions).toHaveBeenCalledTimes(1);
+      expect(result.current).toEqual(expect.any(Function));
+    });
+  });
+
+  describe('store prop', () => {
+    type Settings = {
+      theme: string;
+      fontSize: number;
+    };
+
+    const initialSettings: Settings = {
+      theme: 'light',
+      fontSize: 14,
+    };
+
+    const { settingsStore, useSettingsStore, SettingsProvider } =
+      createAtomStore(initialSettings, {
+        name: 'settings' as const,
+      });
+
+    const Settings = () => {
+      const theme = useSettingsStore().get.theme();
+      const fontSize = useSettingsStore().get.fontSize();
+
+      return (
+        <div>
+          theme: {theme}, fontSize: {fontSize}
+        </div>
+      );
+    };
+
+    it('uses the store passed to the provider', () => {
+      const store = settingsStore.createStore({ theme: 'dark' });
+
+      const { getByText } = render(
+        <SettingsProvider store={store} fontSize={16}>
+          <Settings />
+        </SettingsProvider>
+      );
+
+      expect(getByText('theme: dark, fontSize: 16')).toBeInTheDocument();
+      expect(settingsStore.get.fontSize(store)).toBe(16);
+
+      act(() => settingsStore.set.theme(store, 'blue'));
+      expect(getByText('theme: blue, fontSize: 16')).toBeInTheDocument();
+    });
+
+    it('shares a store between providers', () => {
+      const store = settingsStore.createStore();
+
+      const { getByText } = render(
+        <>
+          <SettingsProvider store={store} scope="first">
+            <button
+              type="button"
+              onClick={() => settingsStore.set.theme('first', 'dark')}
+            >
+              first
+            </button>
+          </SettingsProvider>
+          <SettingsProvider store={store}>
+            <Settings />
+          </SettingsProvider>
+        </>
+      );
+
+      act(() => getByText('first').click());
+
+      expect(getByText('theme: dark, fontSize: 14')).toBeInTheDocument();
+    });
+
+    it('hydrates and switches to a new store', () => {
+      const { getByText, rerender } = render(
+        <SettingsProvider
+          store={settingsStore.createStore({ theme: 'dark' })}
+          initialValues={{ fontSize: 20 }}
+        >
+          <Settings />
+        </SettingsProvider>
+      );
+
+      expect(getByText('theme: dark, fontSize: 20')).toBeInTheDocument();
+
+      rerender(
+        <SettingsProvider
+          store={settingsStore.createStore({ theme: 'blue' })}
+          initialValues={{ fontSize: 20 }}
+        >
+          <Settings />
+        </SettingsProvider>
+      );
+
+      expect(getByText('theme: blue, fontSize: 20')).toBeInTheDocument();
+    });
+
+    it('resets a created store to its initial values', () => {
+      const store = settingsStore.createStore({ theme: 'dark' });
+
+      settingsStore.set.theme(store, 'blue');
+      settingsStore.reset(store);
+
+      expect(settingsStore.get.theme(store)).toBe('dark');
+    });
+  });
+
+  describe('async atoms', () => {
+    type Profile = {
+      id: number;
+    };
+
+    const initialProfile: Profile = {
+      id: 1,
+    };
+
+    const createProfileStore = <Suspense extends boolean = true>(
+      suspense?: Suspense
+    ) =>
+      createAtomStore(initialProfile, {
+        name: 'profile' as const,
+        suspense,
+        extend: ({ id }) => ({
+          user: atom(async (get) => {
+            const userId = get(id);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            if (userId < 0) throw new Error('Unknown user');
+
+            return `user ${userId}`;
+          }),
+        }),
+      });
+
+    it('reads the loading state without suspending', async () => {
+      const { useProfileStore, ProfileProvider } = createProfileStore();
+
+      const User = () => {
+        const user = useProfileStore('profile').get.user.loadable();
+        const fallback = useProfileStore('profile').get.user.unwrap('...');
+
+        return (
+          <div>
+            {user.state}: {fallback}
+          </div>
+        );
+      };
+
+      const { getByText, findByText } = render(
+        <ProfileProvider scope="profile">
+          <User />
+        </ProfileProvider>
+      );
+
+      expect(getByText('loading: ...')).toBeInTheDocument();
+      expect(await findByText('hasData: user 1')).toBeInTheDocument();
+    });
+
+    it('returns undefined while loading when suspense is disabled', async () => {
+      const { useProfileStore, ProfileProvider } = createProfileStore(false);
+
+      const User = () => {
+        const user = useProfileStore({ delay: 0 }).get.user();
+        const [id, setId] = useProfileStore().use.id();
+
+        return (
+          <>
+            <div>user: {user ?? 'none'}</div>
+            <button type="button" onClick={() => setId(id + 1)}>
+              next
+            </button>
+          </>
+        );
+      };
+
+      const { getByText, findByText } = render(
+        <ProfileProvider>
+          <User />
+        </ProfileProvider>
+      );
+
+      expect(getByText('user: none')).toBeInTheDocument();
+      expect(await findByText('user: user 1')).toBeInTheDocument();
+
+      act(() => getByText('next').click());
+      expect(await findByText('user: user 2')).toBeInTheDocument();
+    });
+
+    it('types values as possibly undefined when suspense is disabled', () => {
+      const { useProfileStore, ProfileProvider } = createProfileStore(false);
+
+      const { result } = renderHook(() => useProfileStore().get.user(), {
+        wrapper: ProfileProvider,
+      });
+
+      const user: string | undefined = result.current;
+      // @ts-expect-error the user is undefined while loading
+      const loadedUser: string = result.current;
+
+      expect(user).toBeUndefined();
+      expect(loadedUser).toBeUndefined();
+    });
+
+    it('exposes errors through the loadable state', async () => {
+      const { useProfileStore, ProfileProvider } = createProfileStore();
+
+      const User = () => {
+        const user = useProfileStore().get.user.loadable();
+
+        return (
+          <div>
+            {user.state === 'hasError'
+              ? (user.error as Error).message
+              : user.state}
+          </div>
+        );
+      };
+
+      const { findByText } = render(
+        <ProfileProvider id={-1}>
+          <User />
+        </ProfileProvider>
+      );
+
+      expect(await findByText('Unknown user')).toBeInTheDocument();
+    });
+  });
+
+  describe('global store', () => {
+    type Session = {
+      user: string;
+    };
+
+    const initialSession: Session = {
+      user: 'anonymous',
+    };
+
+    const Session = ({
+      useSessionStore,
+      scope,
+    }: {
+      useSessionStore: any;
+      scope?: string;
+    }) => {
+      const [user, setUser] = useSessionStore(scope).use.user();
+
+      return (
+        <button
+          type="button"
+          onClick={() => setUser(`${scope ?? 'global'}-user`)}
+        >
+          {scope ?? 'global'}: {user}
+        </button>
+      );
+    };
+
+    it('uses a dedicated store without a provider', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { sessionStore, useSessionStore } = createAtomStore(
+        initialSession,
+        { name: 'session' as const, global: true }
+      );
+
+      const { getByText } = render(
+        <Session useSessionStore={useSessionStore} />
+      );
+
+      act(() => getByText('global: anonymous').click());
+
+      expect(getByText('global: global-user')).toBeInTheDocument();
+      expect(sessionStore.get.user()).toBe('global-user');
+      expect(sessionStore.get.user(sessionStore.defaultStore)).toBe(
+        'global-user'
+      );
+      expect(sessionStore.defaultStore).not.toBe(getDefaultStore());
+      expect(getDefaultStore().get(sessionStore.atom.user)).toBe('anonymous');
+      expect(warn).not.toHaveBeenCalledWith(
+        expect.stringContaining("jotai store 'session'")
+      );
+
+      warn.mockRestore();
+    });
+
+    it('overrides the global store with providers', () => {
+      const defaultStore = createStore();
+      const { sessionStore, useSessionStore, SessionProvider } =
+        createAtomStore(initialSession, {
+          name: 'session' as const,
+          defaultStore,
+        });
+
+      const { getByText } = render(
+        <>
+          <Session useSessionStore={useSessionStore} />
+          <SessionProvider scope="scoped">
+            <Session useSessionStore={useSessionStore} scope="scoped" />
+          </SessionProvider>
+        </>
+      );
+
+      act(() => getByText('scoped: anonymous').click());
+
+      expect(getByText('scoped: scoped-user')).toBeInTheDocument();
+      expect(getByText('global: anonymous')).toBeInTheDocument();
+      expect(sessionStore.defaultStore).toBe(defaultStore);
+      expect(sessionStore.get.user('scoped')).toBe('scoped-user');
+      expect(sessionStore.get.user(defaultStore)).toBe('anonymous');
+    });
+  });
 });
@@ -1,12 +1,50 @@
 import React from 'react';
-import { useAtom, useAtomValue, useSetAtom } from 'jotai';
-import { useHydrateAtoms } from 'jotai/utils';
+import {
+  atom,
+  useAtom,
+  useAtomValue,
+  useStore as useJotaiStore,
+  useSetAtom,
+} from 'jotai';
+import { loadable, selectAtom, useHydrateAtoms } from 'jotai/utils';
+import { createStore, getDefaultStore } from 'jotai/vanilla';
 
 import { atomWithFn } from './atomWithFn';
-import { createAtomProvider, useAtomStore } from './createAtomProvider';
+import {
+  createAtomProvider,
+  getAtomStore,
+  useAtomStore,
+} from './createAtomProvider';
+import { createStoreHistory } from './createStoreHistory';
+import { dehydrateStore } from './dehydrateStore';
+import { isFamily } from './family';
+import { atomWithLazy, isLazy } from './lazy';
+import { produceStore } from './produceStore';
+import { resetStore, setHydratedValues } from './resetStore';
+import { subscribeStore } from './subscribeStore';
+import { transactStore } from './transactStore';
+import { atomWithValidation } from './validateStore';
 
 import type { ProviderProps } from './createAtomProvider';
-import type { Atom, createStore, WritableAtom } from 'jotai/vanilla';
+import type { HistoryOptions } from './createStoreHistory';
+import type {
+  SnapshotAtomRecord,
+  StoreSerializers,
+  StoreSnapshot,
+} from './dehydrateStore';
+import type { StoreFamily } from './family';
+import type { LazyProps, StoreLazy } from './lazy';
+import type { Producer, ProduceRecipe } from './produceStore';
+import type { ResetOptions, ResettableAtomRecord } from './resetStore';
+import type { StoreListener, SubscribeOptions } from './subscribeStore';
+import type { BroadcastOptions } from './useBroadcastStore';
+import type { SyncMode } from './useHydrateStore';
+import type { InheritMode } from './useInheritStore';
+import type { PersistOptions } from './usePersistStore';
+import type { DevtoolsOptions } from './useReduxDevtools';
+import type { UrlSyncOptions } from './useUrlSyncStore';
+import type { ValidateOptions, ValidationIssue } from './validateStore';
+import type { Atom, WritableAtom } from 'jotai/vanilla';
 
 /**
  * 表示一个 Jotai 存储的类型，它是 createStore 函数的返回值。
@@ -21,6 +59,8 @@ export type UseAtomOptions = {
   store?: JotaiStore;
   delay?: number;
   warnIfNoStore?: boolean;
+  // 严格模式：找不到匹配作用域的 Provider 时抛出错误，而不是回退到最近的 Provider。
+  strict?: boolean;
 };
 
 /**
@@ -28,14 +68,78 @@ export type UseAtomOptions = {
  */
 type UseAtomOptionsOrScope = UseAtomOptions | string;
 
+/**
+ * 选择器 hook 的选项。选择器可以是内联函数，派生的选择原子只在原子或 deps 变化时重新创建；
+ * 如果选择器依赖于渲染时的值（例如 props），需要将这些值传入 deps。
+ */
+export type UseSelectorOptions = UseAtomOptions & {
+  deps?: unknown[];
+};
+
+type UseSelectorOptionsOrScope = UseSelectorOptions | string;
+
+/**
+ * 从值 V 中选择一部分 S，prevSelected 是上一次选择的结果。
+ */
+type Selector<V, S> = (value: Awaited<V>, prevSelected?: S) => S;
+
+/**
+ * 异步值的加载状态。
+ */
+export type Loadable<V> =
+  | { state: 'loading' }
+  | { state: 'hasError'; error: unknown }
+  | { state: 'hasData'; data: Awaited<V> };
+
+/**
+ * get hooks 读取的值：suspense 为 false 时，异步值在加载中为 undefined。
+ */
+type SuspenseValue<V, Suspense extends boolean> = Suspense extends false
+  ? V extends PromiseLike<unknown>
+    ? Awaited<V> | undefined
+    : V
+  : V;
+
+/**
+ * 读取一个值的 hook：不传选择器时返回整个值，传入选择器时只在选择的结果变化时重新渲染。
+ */
+type GetValueFn<V, Suspense extends boolean = true> = {
+  (options?: UseAtomOptionsOrScope): SuspenseValue<V, Suspense>;
+  <S>(
+    selector: Selector<V, S>,
+    equalityFn?: (prev: S, next: S) => boolean,
+    options?: UseSelectorOptionsOrScope
+  ): S;
+  // 返回值的加载状态，异步值不会挂起。
+  loadable: (options?: UseAtomOptionsOrScope) => Loadable<V>;
+  // 返回值，异步值加载中时返回 fallback，出错时抛出错误。
+  unwrap: <F>(fallback: F, options?: UseAtomOptionsOrScope) => Awaited<V> | F;
+};
+
+/**
+ * 判断一个值是否是原子族；any 不是原子族，否则条件类型会同时得到两个分支。
+ */
+type IsStoreFamily<V> = 0 extends 1 & V
+  ? false
+  : V extends StoreFamily<any, any>
+    ? true
+    : false;
+
 /**
  * 用于创建一个对象，其中每个属性都是一个函数，该函数可以读取 Jotai 原子的值
  * 接受一个对象 O，返回一个新的对象，其中每个属性都是一个函数，该函数接受UseAtomOptionsOrScope 类型的参数，并返回 O 中对应属性的值。
  */
-type GetRecord<O> = {
-  [K in keyof O]: O[K] extends Atom<infer V>
-    ? (options?: UseAtomOptionsOrScope) => V
-    : never;
+type GetRecord<O, Suspense extends boolean = true> = {
+  [K in keyof O]: IsStoreFamily<O[K]> extends true
+    ? O[K] extends StoreFamily<infer P, infer V>
+      ? (
+          param: P,
+          options?: UseAtomOptionsOrScope
+        ) => SuspenseValue<V, Suspense>
+      : never
+    : O[K] extends Atom<infer V>
+      ? GetValueFn<V, Suspense>
+      : never;
 };
 
 /**
@@ -45,9 +149,23 @@ type GetRecord<O> = {
  * 该函数接受 UseAtomOptionsOrScope 类型的参数，并返回一个函数，该函数接受 O 中对应属性的值，并返回一个结果。
  */
 type SetRecord<O> = {
-  [K in keyof O]: O[K] extends WritableAtom<infer _V, infer A, infer R>
-    ? (options?: UseAtomOptionsOrScope) => (...args: A) => R
-    : never;
+  [K in keyof O]: IsStoreFamily<O[K]> extends true
+    ? O[K] extends StoreFamily<infer P, infer V>
+      ? (param: P, options?: UseAtomOptionsOrScope) => (value: V) => void
+      : never
+    : O[K] extends WritableAtom<infer V, infer A, infer R>
+      ? ((options?: UseAtomOptionsOrScope) => (...args: A) => R) &
+          ([V] extends A ? SetProduceFn<V> : unknown)
+      : never;
+};
+
+/**
+ * 接受值的可写原子的 set hook 上附加的 produce，返回一个用草稿更新函数更新值的函数。
+ */
+type SetProduceFn<V> = {
+  produce: (
+    options?: UseAtomOptionsOrScope
+  ) => (recipe: ProduceRecipe<V>) => void;
 };
 
 /**
@@ -56,16 +174,247 @@ type SetRecord<O> = {
  * 数组中第一个元素是 O 中对应属性的值，第二个元素是一个函数，该函数接受 O 中对应属性的值，并返回一个结果。
  */
 type UseRecord<O> = {
-  [K in keyof O]: O[K] extends WritableAtom<infer V, infer A, infer R>
-    ? (options?: UseAtomOptionsOrScope) => [V, (...args: A) => R]
+  [K in keyof O]: IsStoreFamily<O[K]> extends true
+    ? O[K] extends StoreFamily<infer P, infer V>
+      ? (param: P, options?: UseAtomOptionsOrScope) => [V, (value: V) => void]
+      : never
+    : O[K] extends WritableAtom<infer V, infer A, infer R>
+      ? (options?: UseAtomOptionsOrScope) => [V, (...args: A) => R]
+      : never;
+};
+
+/**
+ * 每个键都有一个 hook，返回该键最近一次写入的值的校验问题；没有校验器的键总是返回空数组。
+ */
+type UseErrorsRecord<T> = {
+  [K in keyof T]: (
+    options?: UseAtomOptionsOrScope
+  ) => readonly ValidationIssue[];
+};
+
+/**
+ * 重置 hook 的选项。
+ */
+export type UseResetOptions = UseAtomOptions & ResetOptions;
+
+type UseResetOptionsOrScope = UseResetOptions | string;
+
+/**
+ * 可以重置的键：initialState 中的值，以及具有初始值的基础原子（例如 extend 中的 atom(0)）。
+ */
+type ResettableKeys<T, E> = {
+  [K in keyof StoreAtoms<T, E>]: K extends keyof E
+    ? E[K] extends { init: unknown }
+      ? K
+      : never
+    : K extends keyof T
+      ? T[K] extends Atom<any>
+        ? T[K] extends { init: unknown }
+          ? K
+          : never
+        : K
+      : never;
+}[keyof StoreAtoms<T, E>];
+
+/**
+ * 每个可以重置的键都有一个 hook，返回一个重置该键的函数。
+ */
+type UseResetApi<T, E> = {
+  [K in ResettableKeys<T, E>]: (options?: UseResetOptionsOrScope) => () => void;
+};
+
+/**
+ * 动作工厂接收的参数：绑定到当前存储的 get 和 set，以及存储的所有原子。
+ */
+export type StoreActionsHelpers<T, E> = {
+  get: JotaiStore['get'];
+  set: JotaiStore['set'];
+  atoms: StoreAtoms<T, E>;
+};
+
+/**
+ * 绑定到一个存储的 get，每个属性读取对应键的值。
+ */
+type BoundGetRecord<O> = {
+  [K in keyof O]: O[K] extends Atom<infer V> ? () => V : never;
+};
+
+/**
+ * 绑定到一个存储的 set，每个属性设置对应键的值。
+ */
+type BoundSetRecord<O> = {
+  [K in keyof O]: O[K] extends WritableAtom<infer _V, infer A, infer R>
+    ? (...args: A) => R
     : never;
 };
 
+/**
+ * Provider 中渲染的 effect 组件接收的属性。
+ */
+export type ProviderEffectProps<T, E> = {
+  // 当前 Provider 的存储。
+  store: JotaiStore;
+  // 绑定到当前存储的 get 和 set，例如 get.name() 和 set.name('value')。
+  get: BoundGetRecord<StoreAtoms<T, E>>;
+  set: BoundSetRecord<WritableStoreAtoms<T, E>>;
+  // Provider 的属性（不包括 children 和 store）。
+  props: Omit<ProviderProps<StoreInitialValues<T>>, 'children' | 'store'>;
+  scope?: string;
+};
+
+/**
+ * 在 Provider 中渲染的 effect 组件。
+ */
+export type ProviderEffect<T, E> = React.FC<ProviderEffectProps<T, E>>;
+
+/**
+ * 动作工厂返回的具名函数，可以是异步函数。
+ */
+export type ActionRecord = Record<string, (...args: any[]) => unknown>;
+
+/**
+ * 在事务中执行的函数，接收绑定到当前存储的 get、set 和存储的所有原子。
+ */
+export type StoreTransaction<T, E, R> = (
+  helpers: StoreActionsHelpers<T, E>
+) => R;
+
+/**
+ * 一次写入多个键时的值，只包含可以用一个参数写入的键。
+ */
+export type SetManyValues<O> = {
+  [K in keyof O as O[K] extends WritableAtom<any, [any], any>
+    ? K
+    : never]?: O[K] extends WritableAtom<any, [infer V], any> ? V : never;
+};
+
+/**
+ * 每个动作都有一个 hook，返回绑定到当前存储的动作。调用者不会订阅任何原子，因此不会重新渲染。
+ */
+type UseActionsRecord<A> = {
+  [K in keyof A]: (options?: UseAtomOptionsOrScope) => A[K];
+};
+
+/**
+ * 在 React 之外查找存储的方式：直接传入 JotaiStore，或者传入作用域（或 UseAtomOptions）从已挂载的 Provider 中查找。
+ */
+export type StoreLookup = JotaiStore | UseAtomOptionsOrScope;
+
+/**
+ * 与 GetRecord 对应的非 React 版本，每个属性都是一个函数，该函数接受一个 StoreLookup 参数，并返回 O 中对应属性的值。
+ */
+type VanillaGetRecord<O> = {
+  [K in keyof O]: IsStoreFamily<O[K]> extends true
+    ? O[K] extends StoreFamily<infer P, infer V>
+      ? (store: StoreLookup | undefined, param: P) => V
+      : never
+    : O[K] extends Atom<infer V>
+      ? (store?: StoreLookup) => V
+      : never;
+};
+
+/**
+ * 与 SetRecord 对应的非 React 版本，每个属性都是一个函数，该函数接受一个 StoreLookup 参数和原子的写入参数。
+ */
+type VanillaSetRecord<O> = {
+  [K in keyof O]: IsStoreFamily<O[K]> extends true
+    ? O[K] extends StoreFamily<infer P, infer V>
+      ? (store: StoreLookup | undefined, param: P, value: V) => void
+      : never
+    : O[K] extends WritableAtom<infer V, infer A, infer R>
+      ? ((store: StoreLookup | undefined, ...args: A) => R) &
+          ([V] extends A
+            ? {
+                produce: (
+                  store: StoreLookup | undefined,
+                  recipe: ProduceRecipe<V>
+                ) => void;
+              }
+            : unknown)
+      : never;
+};
+
+/**
+ * 每个原子族都有一个 remove 函数，从存储的缓存中移除一个参数的原子。
+ */
+type VanillaFamilyRecord<F> = {
+  [K in keyof F]: F[K] extends StoreFamily<infer P, infer _V>
+    ? { remove: (store: StoreLookup | undefined, param: P) => void }
+    : never;
+};
+
+/**
+ * 每个属性都是一个函数，该函数在 O 中对应属性的值发生变化时调用 listener，并返回一个取消订阅的函数。
+ */
+type VanillaSubscribeRecord<O> = {
+  [K in keyof O]: O[K] extends Atom<infer V>
+    ? (
+        store: StoreLookup | undefined,
+        listener: StoreListener<V>,
+        options?: SubscribeOptions
+      ) => () => void
+    : never;
+};
+
+/**
+ * 订阅一个键或多个键；订阅多个键时，监听函数接收这些键的值组成的对象。
+ */
+type VanillaSubscribeFn<S> = {
+  <K extends keyof S>(
+    store: StoreLookup | undefined,
+    key: K,
+    listener: StoreListener<S[K]>,
+    options?: SubscribeOptions
+  ): () => void;
+  <K extends keyof S>(
+    store: StoreLookup | undefined,
+    keys: K[],
+    listener: StoreListener<Pick<S, K>>,
+    options?: SubscribeOptions
+  ): () => void;
+};
+
+/**
+ * effect hook 的选项。
+ */
+export type UseStoreEffectOptions = UseAtomOptions & SubscribeOptions;
+
+type UseStoreEffectOptionsOrScope = UseStoreEffectOptions | string;
+
+/**
+ * 在组件中订阅一个键或多个键，组件卸载时自动取消订阅。
+ */
+type UseStoreEffectFn<S> = {
+  <K extends keyof S>(
+    key: K,
+    callback: StoreListener<S[K]>,
+    options?: UseStoreEffectOptionsOrScope
+  ): void;
+  <K extends keyof S>(
+    keys: K[],
+    callback: StoreListener<Pick<S, K>>,
+    options?: UseStoreEffectOptionsOrScope
+  ): void;
+};
+
 /**
  * 接受一个对象 T，返回一个新的对象，其中每个属性都是一个原子，如果 T 中对应属性的值是一个原子，则直接使用该原子，否则创建一个新的原子来存储该值。
  */
 type StoreAtomsWithoutExtend<T> = {
-  [K in keyof T]: T[K] extends Atom<any> ? T[K] : SimpleWritableAtom<T[K]>;
+  [K in keyof T as IsStoreFamily<T[K]> extends true
+    ? never
+    : K]: T[K] extends Atom<any>
+    ? T[K]
+    : T[K] extends StoreLazy<infer V>
+      ? SimpleWritableAtom<V>
+      : SimpleWritableAtom<T[K]>;
+};
+
+/**
+ * initialState 中的原子族，它们不属于存储的原子，而是按参数生成原子。
+ */
+type StoreFamilies<T> = {
+  [K in keyof T as IsStoreFamily<T[K]> extends true ? K : never]: T[K];
 };
 
 /**
@@ -90,6 +439,11 @@ type StoreInitialValues<T> = ValueTypesForAtoms<StoreAtomsWithoutExtend<T>>;
  */
 type StoreAtoms<T, E> = StoreAtomsWithoutExtend<T> & E;
 
+/**
+ * 存储中所有原子（包括扩展原子）的值。
+ */
+export type StoreState<T, E> = ValueTypesForAtoms<StoreAtoms<T, E>>;
+
 /**
  * 接受一个对象 T，返回一个新的对象，其中每个属性都是一个可写的原子，如果 T 中对应属性的值是一个可写的原子，则直接使用该原子，否则忽略该属性。
  */
@@ -155,15 +509,113 @@ export type StoreApi<
   T extends object,
   E extends AtomRecord<object>,
   N extends string = '',
+  A extends ActionRecord = Record<never, never>,
 > = {
   atom: StoreAtoms<T, E>;
   name: N;
+  // 以下属性与 UseStoreApi 中的 get、set 对应，但可以在 React 之外使用。
+  get: VanillaGetRecord<StoreAtoms<T, E> & StoreFamilies<T>> & {
+    atom: VanillaGetAtomFn;
+  };
+  set: VanillaSetRecord<WritableStoreAtoms<T, E> & StoreFamilies<T>> & {
+    atom: VanillaSetAtomFn;
+  };
+  // 原子族的缓存操作。
+  family: VanillaFamilyRecord<StoreFamilies<T>>;
+  subscribe: VanillaSubscribeFn<StoreState<T, E>> &
+    VanillaSubscribeRecord<StoreAtoms<T, E>> & {
+      atom: VanillaSubscribeAtomFn;
+    };
+  getState: (store?: StoreLookup) => StoreState<T, E>;
+  // 生成可以通过 Provider 的 snapshot 属性恢复的 JSON 快照。
+  dehydrate: (store?: StoreLookup) => StoreSnapshot;
+  // 原地重置指定的键，不传 keys 时重置所有键。
+  reset: (
+    store?: StoreLookup,
+    keys?: ResettableKeys<T, E>[],
+    options?: ResetOptions
+  ) => void;
+  // 返回绑定到存储的动作，每个存储的动作只创建一次。
+  actions: (store?: StoreLookup) => A;
+  // 在一次写入中设置多个键，订阅者只收到最终的状态。
+  setMany: (
+    store: StoreLookup | undefined,
+    values: SetManyValues<StoreAtoms<T, E>>
+  ) => void;
+  // 在一次写入中执行函数，函数抛出错误时回滚所有的键和原子族的原子；没有初始值的派生原子通过它写入的原子回滚。
+  transaction: <R>(
+    store: StoreLookup | undefined,
+    fn: StoreTransaction<T, E, R>
+  ) => R;
+  // 创建一个用初始值初始化的存储，可以传给 Provider 的 store 属性。
+  createStore: (initialValues?: Partial<StoreInitialValues<T>>) => JotaiStore;
+  // 没有匹配的 Provider 时使用的存储：global 或 defaultStore 选项的存储，否则为 Jotai 的默认存储。
+  defaultStore: JotaiStore;
+  history: VanillaHistoryApi;
+};
+
+/**
+ * 撤销/重做历史的 hooks，undo、redo 和 clear 返回一个函数，canUndo 和 canRedo 返回一个布尔值。
+ */
+type UseHistoryApi = {
+  undo: (options?: UseAtomOptionsOrScope) => () => void;
+  redo: (options?: UseAtomOptionsOrScope) => () => void;
+  clear: (options?: UseAtomOptionsOrScope) => () => void;
+  canUndo: (options?: UseAtomOptionsOrScope) => boolean;
+  canRedo: (options?: UseAtomOptionsOrScope) => boolean;
+};
+
+/**
+ * UseHistoryApi 的非 React 版本。
+ */
+type VanillaHistoryApi = {
+  undo: (store?: StoreLookup) => void;
+  redo: (store?: StoreLookup) => void;
+  clear: (store?: StoreLookup) => void;
+  canUndo: (store?: StoreLookup) => boolean;
+  canRedo: (store?: StoreLookup) => boolean;
 };
 
 /**
  * 接受一个原子 atom 和一个可选的 UseAtomOptionsOrScope 参数，返回一个值 V。
+ * 也可以传入选择器，只读取原子值的一部分。
  */
-type GetAtomFn = <V>(atom: Atom<V>, options?: UseAtomOptionsOrScope) => V;
+type GetAtomFn<Suspense extends boolean = true> = {
+  <V>(
+    atom: Atom<V>,
+    options?: UseAtomOptionsOrScope
+  ): SuspenseValue<V, Suspense>;
+  <V, S>(
+    atom: Atom<V>,
+    selector: Selector<V, S>,
+    equalityFn?: (prev: S, next: S) => boolean,
+    options?: UseSelectorOptionsOrScope
+  ): S;
+};
+
+/**
+ * GetAtomFn 的非 React 版本。
+ */
+type VanillaGetAtomFn = <V>(store: StoreLookup | undefined, atom: Atom<V>) => V;
+
+/**
+ * SetAtomFn 的非 React 版本。
+ */
+type VanillaSetAtomFn = <V, A extends unknown[], R>(
+  store: StoreLookup | undefined,
+  atom: WritableAtom<V, A, R>,
+  ...args: A
+) => R;
+
+/**
+ * 订阅任意原子的非 React 版本，返回一个取消订阅的函数。
+ */
+type VanillaSubscribeAtomFn = <V>(
+  store: StoreLookup | undefined,
+  atom: Atom<V>,
+  listener: StoreListener<V>,
+  options?: SubscribeOptions
+) => () => void;
 
 /**
  * 接受一个可写原子 atom、一个可选的 UseAtomOptionsOrScope 参数，并返回一个函数，该函数接受一个或多个参数 A，并返回一个结果 R。
@@ -182,21 +634,54 @@ type UseAtomFn = <V, A extends unknown[], R>(
   options?: UseAtomOptionsOrScope
 ) => [V, (...args: A) => R];
 
-export type UseStoreApi<T, E> = (options?: UseAtomOptionsOrScope) => {
+export type UseStoreApi<
+  T,
+  E,
+  A = Record<never, never>,
+  Suspense extends boolean = true,
+> = (options?: UseAtomOptionsOrScope) => {
   // 表示一个对象，其中每个属性都是一个函数，该函数可以读取 StoreAtoms<T, E> 中对应属性的值，或者读取 StoreAtoms<T, E> 本身。
-  get: GetRecord<StoreAtoms<T, E>> & { atom: GetAtomFn };
+  get: GetRecord<StoreAtoms<T, E> & StoreFamilies<T>, Suspense> & {
+    atom: GetAtomFn<Suspense>;
+  };
   // 表示一个对象，其中每个属性都是一个函数，该函数可以设置 WritableStoreAtoms<T, E> 中对应属性的值，或者设置 WritableStoreAtoms<T, E> 本身。
-  set: SetRecord<WritableStoreAtoms<T, E>> & { atom: SetAtomFn };
+  set: SetRecord<WritableStoreAtoms<T, E> & StoreFamilies<T>> & {
+    atom: SetAtomFn;
+  };
   // 表示一个对象，其中每个属性都是一个函数，该函数可以读取和设置 WritableStoreAtoms<T, E> 中对应属性的值，或者读取和设置 WritableStoreAtoms<T, E> 本身
-  use: UseRecord<WritableStoreAtoms<T, E>> & { atom: UseAtomFn };
+  use: UseRecord<WritableStoreAtoms<T, E> & StoreFamilies<T>> & {
+    atom: UseAtomFn;
+  };
+  // 表示返回一个在一次写入中设置多个键的函数的 hook，不放在 set 中，以免与名为 many 的键冲突。
+  setMany: (
+    options?: UseAtomOptionsOrScope
+  ) => (values: SetManyValues<StoreAtoms<T, E>>) => void;
+  // 表示一个返回事务函数的 hook。
+  transaction: (
+    options?: UseAtomOptionsOrScope
+  ) => <R>(fn: StoreTransaction<T, E, R>) => R;
   // 表示一个函数，该函数可以返回 JotaiStore 或 undefined。
   store: (options?: UseAtomOptionsOrScope) => JotaiStore | undefined;
+  // 表示重置的 hooks。
+  reset: UseResetApi<T, E>;
+  // 表示返回一个重置所有键的函数的 hook，不放在 reset 中，以免与名为 all 的键冲突。
+  resetAll: (options?: UseResetOptionsOrScope) => () => void;
+  // 表示动作的 hooks。
+  actions: UseActionsRecord<A>;
+  // 表示校验问题的 hooks。
+  errors: UseErrorsRecord<StoreInitialValues<T>>;
+  // 表示订阅键的变化的 hook。
+  effect: UseStoreEffectFn<StoreState<T, E>>;
+  // 表示撤销/重做历史的 hooks。
+  history: UseHistoryApi;
 };
 
 export type AtomStoreApi<
   T extends object,
   E extends AtomRecord<object>,
   N extends string = '',
+  A extends ActionRecord = Record<never, never>,
+  Suspense extends boolean = true,
 > = {
   // name：表示存储的名称，类型为 N。这里其实就是字符串
   name: N;
@@ -206,11 +691,16 @@ export type AtomStoreApi<
     ProviderProps<StoreInitialValues<T>>
   >;
 } & {
-  // 表示一个对象，其中每个属性都是一个 StoreApi<T, E, N> 类型的对象。
-  [key in keyof Record<NameStore<N>, object>]: StoreApi<T, E, N>;
+  // 表示一个对象，其中每个属性都是一个 StoreApi<T, E, N, A> 类型的对象。
+  [key in keyof Record<NameStore<N>, object>]: StoreApi<T, E, N, A>;
 } & {
-  // 表示一个对象，其中每个属性都是一个 UseStoreApi<T, E> 类型的对象。
-  [key in keyof Record<UseNameStore<N>, object>]: UseStoreApi<T, E>;
+  // 表示一个对象，其中每个属性都是一个 UseStoreApi<T, E, A, Suspense> 类型的对象。
+  [key in keyof Record<UseNameStore<N>, object>]: UseStoreApi<
+    T,
+    E,
+    A,
+    Suspense
+  >;
 };
 
 /**
@@ -220,7 +710,7 @@ export type AtomStoreApi<
  */
 const capitalizeFirstLetter = (str = '') =>
   str.length > 0 ? str[0].toUpperCase() + str.slice(1) : '';
-const getProviderIndex = (name = '') =>
+export const getProviderIndex = (name = '') =>
   `${capitalizeFirstLetter(name)}Provider`;
 
 /**
@@ -228,7 +718,7 @@ const getProviderIndex = (name = '') =>
  * @param name 
  * @returns 
  */
-const getStoreIndex = (name = '') =>
+export const getStoreIndex = (name = '') =>
   name.length > 0 ? `${name}Store` : 'store';
 const getUseStoreIndex = (name = '') =>
   `use${capitalizeFirstLetter(name)}Store`;
@@ -250,34 +740,92 @@ const isAtom = (possibleAtom: unknown): boolean =>
  * 用于为函数记录添加默认选项。
  * 这个函数的主要目的是为了为函数记录添加默认选项。
  * withDefaultOptions 函数用于创建一个新的对象，该对象包含 fnRecord 中的函数，并且每个函数都接受一个可选的 UseAtomOptions 参数，该参数包含默认选项。
- * @param fnRecord 
- * @param defaultOptions 
- * @returns 
+ * 选项通常是第一个参数；如果第一个参数是选择器函数，则选项是第三个参数。
+ * 函数上附加的子函数（例如 get.<key>.loadable）也会被保留，它们的选项是最后一个参数。
+ * parameterizedKeys 中的函数（例如原子族）的第一个参数是参数，选项是第二个参数。
+ * @param fnRecord
+ * @param defaultOptions
+ * @param parameterizedKeys
+ * @returns
  */
 const withDefaultOptions = <T extends object>(
   fnRecord: T,
-  defaultOptions: UseAtomOptions
-): T =>
-  Object.fromEntries(
+  defaultOptions: UseAtomOptions,
+  parameterizedKeys: string[] = []
+): T => {
+  // 在 optionsIndex 位置合并默认选项和传入的选项
+  const withOptionsAt =
+    (fn: Function, getOptionsIndex: (args: unknown[]) => number) =>
+    (...args: unknown[]) => {
+      const optionsIndex = getOptionsIndex(args);
+      const newArgs = [...args];
+
+      newArgs[optionsIndex] = {
+        ...defaultOptions,
+        ...convertScopeShorthand(
+          args[optionsIndex] as UseAtomOptionsOrScope | undefined
+        ),
+      };
+
+      return fn(...newArgs);
+    };
+
+  return Object.fromEntries(
     // fnRecord：表示一个对象，其中每个属性都是一个函数。
     // 使用 Object.entries 函数获取 fnRecord 的键值对，然后使用 map 函数为每个函数添加默认选项，最后使用 Object.fromEntries 函数将键值对转换回对象。
     Object.entries(fnRecord).map(([key, fn]) => [
       key,
-      (options: UseAtomOptions = {}) =>
-        (fn as any)({ ...defaultOptions, ...options }),
+      Object.assign(
+        withOptionsAt(fn, (args) => {
+          if (parameterizedKeys.includes(key)) return 1;
+
+          return typeof args[0] === 'function' ? 2 : 0;
+        }),
+        Object.fromEntries(
+          Object.entries<Function>(fn).map(([subKey, subFn]) => [
+            subKey,
+            withOptionsAt(subFn, () => subFn.length - 1),
+          ])
+        )
+      ),
     ])
   ) as any;
+};
+
+/**
+ * 读取加载状态中的值：加载中时返回 fallback，出错时抛出错误。
+ */
+const getLoadableValue = <V, F = undefined>(
+  value: Loadable<V>,
+  fallback?: F
+) => {
+  if (value.state === 'hasError') throw value.error;
+
+  return value.state === 'hasData' ? value.data : fallback;
+};
+
+/**
+ * 用于判断一个值是否是 Jotai 存储。
+ * @param possibleStore
+ * @returns
+ */
+const isJotaiStore = (possibleStore: unknown): possibleStore is JotaiStore =>
+  !!possibleStore &&
+  typeof possibleStore === 'object' &&
+  'get' in possibleStore &&
+  'sub' in possibleStore &&
+  typeof possibleStore.sub === 'function';
 
 /**
  * 用于将作用域简写转换为完整的 UseAtomOptions 对象。
  * @param optionsOrScope 
  * @returns 
  */
-const convertScopeShorthand = (
-  optionsOrScope: UseAtomOptionsOrScope = {}
-): UseAtomOptions =>
+const convertScopeShorthand = <O extends UseAtomOptions = UseAtomOptions>(
+  optionsOrScope: O | string = {} as O
+): O =>
   typeof optionsOrScope === 'string'
-    ? { scope: optionsOrScope }
+    ? ({ scope: optionsOrScope } as O)
     : optionsOrScope;
 
 /**
@@ -288,11 +836,48 @@ export interface CreateAtomStoreOptions<
   T extends object,
   E extends AtomRecord<object>,
   N extends string,
+  A extends ActionRecord = Record<never, never>,
+  Suspense extends boolean = true,
 > {
   name: N; // 表示存储的名称，类型为 N。
   delay?: UseAtomOptions['delay'];
-  effect?: React.FC; // 表示一个 React 组件，类型为 React.FC。
+  // 表示在 Provider 中渲染的 effect 组件，可以是一个数组。
+  effect?: ProviderEffect<T, E> | ProviderEffect<T, E>[];
+  // 表示每个 Provider 的存储创建（或原地重置）之后调用的函数。
+  onInit?: (store: JotaiStore) => void;
+  // 表示每个 Provider 的存储卸载（或原地重置）之前调用的函数。
+  onDispose?: (store: JotaiStore) => void;
   extend?: (atomsWithoutExtend: StoreAtomsWithoutExtend<T>) => E;
+  // 表示持久化选项，每个 Provider 的存储都会在子组件读取之前从存储适配器中恢复。
+  persist?: PersistOptions<StoreInitialValues<T>>;
+  // 表示跨标签页同步的键，每个 Provider 的存储通过按存储名称和作用域命名的通道广播写入。
+  broadcast?: BroadcastOptions<StoreInitialValues<T>>;
+  // 表示与 URL 参数同步的键，URL 中的值与 initialValues 一样参与每个 Provider 的初始化。
+  urlSync?: UrlSyncOptions<StoreInitialValues<T>>;
+  // 表示嵌套 Provider 默认如何从最近的同名父存储继承值，可以被 Provider 的 inherit 属性覆盖。
+  inherit?: InheritMode;
+  // 表示是否将每个 Provider 的存储连接到 Redux DevTools，启用时会为原子添加调试标签。
+  devtools?: boolean | DevtoolsOptions;
+  // 表示撤销/重做历史的选项，历史按每个 Provider 的存储分别保存。
+  history?: HistoryOptions<StoreInitialValues<T>>;
+  // 表示快照中每个键的自定义序列化器，例如 Date 或 Map。
+  serializers?: StoreSerializers<StoreState<T, E>>;
+  // 表示创建具名动作的工厂，每个存储调用一次。
+  actions?: (helpers: StoreActionsHelpers<T, E>) => A;
+  // 表示是否默认使用严格的作用域查找，可以在每次调用时覆盖。
+  strict?: boolean;
+  // 表示每个键的校验器，在设置、初始化和同步时执行。
+  validate?: ValidateOptions<StoreInitialValues<T>>;
+  // 表示 Provider 属性与原子的同步方式，默认为 'sync'。
+  syncMode?: SyncMode;
+  // 表示 set.<key>.produce 使用的草稿函数，例如 Immer 的 produce 或 Mutative 的 create。
+  produce?: Producer;
+  // 表示是否在没有 Provider 时使用存储专用的全局存储，而不是警告并回退到 Jotai 的默认存储。
+  global?: boolean;
+  // 表示没有 Provider 时使用的存储，设置时等同于 global: true。
+  defaultStore?: JotaiStore;
+  // 表示读取异步值时是否挂起，默认为 true；为 false 时 get hooks 在加载中返回 undefined。
+  suspense?: Suspense;
 }
 
 /**
@@ -311,10 +896,34 @@ export const createAtomStore = <
   T extends object,
   E extends AtomRecord<object>,
   N extends string = '',
+  A extends ActionRecord = Record<never, never>,
+  Suspense extends boolean = true,
 >(
   initialState: T,
-  { name, delay: delayRoot, effect, extend }: CreateAtomStoreOptions<T, E, N>
-): AtomStoreApi<T, E, N> => {
+  {
+    name,
+    delay: delayRoot,
+    effect,
+    onInit,
+    onDispose,
+    extend,
+    persist,
+    broadcast,
+    urlSync,
+    inherit,
+    devtools,
+    history: historyOptions,
+    serializers,
+    actions: createActions,
+    strict: strictRoot = false,
+    validate,
+    syncMode,
+    suspense = true as Suspense,
+    produce: producer,
+    global: isGlobal = false,
+    defaultStore,
+  }: CreateAtomStoreOptions<T, E, N, A, Suspense>
+): AtomStoreApi<T, E, N, A, Suspense> => {
   // 表示一个存储原子，类型为 StoreAtoms<T, E>
   type MyStoreAtoms = StoreAtoms<T, E>;
   // 表示一个可写的存储原子，类型为 WritableStoreAtoms<T, E>。
@@ -326,6 +935,8 @@ export const createAtomStore = <
     FilterWritableAtoms<MyStoreAtomsWithoutExtend>;
     // 表示一个存储的初始值，类型为 StoreInitialValues<T>。
   type MyStoreInitialValues = StoreInitialValues<T>;
+  // 表示 initialState 中的原子族，类型为 StoreFamilies<T>。
+  type MyStoreFamilies = StoreFamilies<T>;
 
   // 用于创建提供者、钩子和存储的名称。
   const providerIndex = getProviderIndex(name) as NameProvider<N>;
@@ -338,13 +949,57 @@ export const createAtomStore = <
   const writableAtomsWithoutExtend = {} as MyWritableStoreAtomsWithoutExtend;
   // 表示一个对象，其中每个属性都是一个布尔值，类型为 Record<keyof MyStoreAtoms, boolean>。
   const atomIsWritable = {} as Record<keyof MyStoreAtoms, boolean>;
+  // 每个键的校验问题原子，以及被校验原子包装之前的原子。
+  const issuesAtoms = {} as Record<
+    keyof MyStoreInitialValues,
+    Atom<readonly ValidationIssue[]>
+  >;
+  const unvalidatedAtoms: Record<string, Atom<unknown>> = {};
+  // initialState 中的原子族
+  const families: Record<string, StoreFamily<unknown, unknown>> = {};
+  // 延迟初始值在每个存储中创建初始值的函数
+  const lazyInitialValues: Record<string, (store: JotaiStore) => unknown> = {};
+  // Provider 的属性，由 Provider 初始化，传给延迟初始值的 initialFactory
+  const lazyPropsAtom = atom<LazyProps>({});
+  lazyPropsAtom.debugPrivate = true;
 
   // 使用 Object.entries 函数获取 initialState 的键值对。
   for (const [key, atomOrValue] of Object.entries(initialState)) {
+    // 原子族不是存储的原子，按参数在每个存储中分别创建原子
+    if (isFamily(atomOrValue)) {
+      families[key] = atomOrValue;
+      continue;
+    }
+
     // 将每个属性转换为 Jotai 原子 如果 atomOrValue 是一个 Jotai 原子，则直接使用它，否则使用 atomWithFn 函数创建一个新的 Jotai 原子。
-    const atomConfig: Atom<unknown> = isAtom(atomOrValue)
-      ? atomOrValue
-      : atomWithFn(atomOrValue);
+    let atomConfig: Atom<unknown>;
+
+    if (isAtom(atomOrValue)) {
+      atomConfig = atomOrValue;
+    } else if (isLazy(atomOrValue)) {
+      // 延迟初始值在每个存储中分别调用 initialFactory
+      const lazyAtom = atomWithLazy(atomOrValue.initialFactory, lazyPropsAtom);
+      atomConfig = lazyAtom.atom;
+      lazyInitialValues[key] = lazyAtom.getInitialValue;
+    } else {
+      atomConfig = atomWithFn(atomOrValue);
+    }
+
+    // 用校验原子包装设置了校验器的可写原子，没有校验器时原子保持不变
+    const validated = atomWithValidation(
+      atomConfig as SimpleWritableAtom<unknown>,
+      'write' in atomConfig
+        ? validate?.schemas[key as keyof MyStoreInitialValues]
+        : undefined,
+      validate?.policy
+    );
+
+    if (validated.atom !== atomConfig) {
+      unvalidatedAtoms[key] = atomConfig;
+      atomConfig = validated.atom;
+    }
+
+    issuesAtoms[key as keyof MyStoreInitialValues] = validated.issuesAtom;
     // 存储在 atomsWithoutExtend 中
     // 将转换后的 Jotai 原子存储在 atomsWithoutExtend 对象中，键为 key，值为 atomConfig。
     atomsWithoutExtend[key as keyof MyStoreAtomsWithoutExtend] =
@@ -384,12 +1039,62 @@ export const createAtomStore = <
     }
   }
 
+  // 可以生成快照的原子：未扩展的可写原子，以及扩展的基础原子（具有 init 属性）。
+  const snapshotAtoms: SnapshotAtomRecord = { ...writableAtomsWithoutExtend };
+
+  for (const [key, atomConfig] of Object.entries<SnapshotAtomRecord[string]>(
+    atoms as any
+  )) {
+    if ('init' in atomConfig && atomIsWritable[key as keyof MyStoreAtoms]) {
+      snapshotAtoms[key] = atomConfig;
+    }
+  }
+
+  // 可以重置的原子及其在 initialState 中的值；没有初始值的派生原子不能重置。
+  const resettableAtoms: ResettableAtomRecord = {};
+
+  for (const [key, atomConfig] of Object.entries<SnapshotAtomRecord[string]>(
+    atoms as any
+  )) {
+    if (!atomIsWritable[key as keyof MyStoreAtoms]) continue;
+
+    const unvalidatedAtom = unvalidatedAtoms[key] ?? atomConfig;
+
+    if ('init' in unvalidatedAtom) {
+      resettableAtoms[key] = {
+        atom: atomConfig,
+        initialValue: unvalidatedAtom.init,
+      };
+    } else if (
+      key in atomsWithoutExtend &&
+      !isAtom(initialState[key as keyof T])
+    ) {
+      resettableAtoms[key] = {
+        atom: atomConfig,
+        initialValue: initialState[key as keyof T],
+        getInitialValue: lazyInitialValues[key],
+      };
+    }
+  }
+
+  // 启用 devtools 时，为没有调试标签的原子添加 `<storeName>.<key>` 标签，便于在 DevTools 中识别。
+  if (devtools) {
+    for (const [key, atomConfig] of Object.entries(atoms)) {
+      if (!(atomConfig as Atom<unknown>).debugLabel) {
+        (atomConfig as Atom<unknown>).debugLabel = `${name}.${key}`;
+      }
+    }
+  }
+
   // 表示一个对象，其中每个属性都是一个函数，该函数可以读取 MyStoreAtoms 中对应属性的值，类型为 GetRecord<MyStoreAtoms>。
-  const getAtoms = {} as GetRecord<MyStoreAtoms>;
+  const getAtoms = {} as GetRecord<MyStoreAtoms & MyStoreFamilies, Suspense>;
   // 表示一个对象，其中每个属性都是一个函数，该函数可以设置 MyWritableStoreAtoms 中对应属性的值，类型为 SetRecord<MyWritableStoreAtoms>。
-  const setAtoms = {} as SetRecord<MyWritableStoreAtoms>;
+  const setAtoms = {} as SetRecord<MyWritableStoreAtoms & MyStoreFamilies>;
   // 表示一个对象，其中每个属性都是一个函数，该函数可以读取和设置 MyWritableStoreAtoms 中对应属性的值，类型为 UseRecord<MyWritableStoreAtoms>。
-  const useAtoms = {} as UseRecord<MyWritableStoreAtoms>;
+  const useAtoms = {} as UseRecord<MyWritableStoreAtoms & MyStoreFamilies>;
+
+  // 没有匹配的 Provider 时使用的全局存储，不与 Jotai 的默认存储共享
+  const globalStore = defaultStore ?? (isGlobal ? createStore() : undefined);
 
   // 接受一个可选的 UseAtomOptionsOrScope 类型的参数 optionsOrScope，返回一个 Jotai 存储对象。
   const useStore = (optionsOrScope: UseAtomOptionsOrScope = {}) => {
@@ -398,15 +1103,24 @@ export const createAtomStore = <
       scope,
       store,
       warnIfNoStore = true,
+      strict = strictRoot,
     } = convertScopeShorthand(optionsOrScope);
     // 使用 useAtomStore 函数获取上下文存储，如果 store 属性为 false，则 warnIfNoStore 属性为 true。
-    const contextStore = useAtomStore(name, scope, !store && warnIfNoStore);
-    // 如果 store 属性存在，则返回 store，否则返回上下文存储。
-    return store ?? contextStore;
+    const contextStore = useAtomStore(
+      name,
+      scope,
+      !store && !globalStore && warnIfNoStore,
+      !store && strict
+    );
+    // 如果 store 属性存在，则返回 store，否则返回上下文存储，没有 Provider 时返回全局存储。
+    return store ?? contextStore ?? globalStore;
   };
 
-  // 用于读取 Jotai 原子的值
-  const useAtomValueWithStore: GetAtomFn = (atomConfig, optionsOrScope) => {
+  // 用于读取 Jotai 原子的原始值，异步值会挂起
+  const useRawAtomValueWithStore = <V>(
+    atomConfig: Atom<V>,
+    optionsOrScope?: UseAtomOptionsOrScope
+  ): V => {
     // 使用 convertScopeShorthand 函数将 optionsOrScope 转换为 UseAtomOptions 对象。
     const options = convertScopeShorthand(optionsOrScope);
     // 使用 useStore 函数获取存储，如果 store 属性为 false，则 warnIfNoStore 属性为 false。
@@ -415,9 +1129,77 @@ export const createAtomStore = <
     return useAtomValue(atomConfig, {
       store,
       delay: options.delay ?? delayRoot,
-    });
+    }) as V;
   };
 
+  // 用于读取 Jotai 原子的值；suspense 为 false 时，异步值在加载中返回 undefined
+  const useAtomValueWithStore = <V>(
+    atomConfig: Atom<V>,
+    optionsOrScope?: UseAtomOptionsOrScope
+  ): V => {
+    const value = useRawAtomValueWithStore<unknown>(
+      suspense ? atomConfig : loadable(atomConfig),
+      optionsOrScope
+    );
+
+    return suspense
+      ? (value as V)
+      : (getLoadableValue(value as Loadable<V>) as V);
+  };
+
+  // 用于读取 Jotai 原子的加载状态，异步值不会挂起
+  const useLoadableWithStore = <V>(
+    atomConfig: Atom<V>,
+    optionsOrScope?: UseAtomOptionsOrScope
+  ): Loadable<V> =>
+    useRawAtomValueWithStore(loadable(atomConfig), optionsOrScope);
+
+  // 用于读取 Jotai 原子值的一部分，只在选择的结果变化时重新渲染
+  const useSelectedAtomValueWithStore = <V, S>(
+    atomConfig: Atom<V>,
+    selector: Selector<V, S>,
+    equalityFn: (prev: S, next: S) => boolean = Object.is,
+    optionsOrScope?: UseSelectorOptionsOrScope
+  ): S => {
+    const { deps = [], ...options } = convertScopeShorthand(optionsOrScope);
+
+    // 使用 ref 保存最新的 selector 和 equalityFn，这样内联函数不会在每次渲染时创建新的原子
+    const selectorRef = React.useRef(selector);
+    selectorRef.current = selector;
+    const equalityFnRef = React.useRef(equalityFn);
+    equalityFnRef.current = equalityFn;
+
+    // selectAtom 在每个存储中分别记忆上一次的选择结果
+    const selectedAtom = React.useMemo(
+      () =>
+        selectAtom(
+          atomConfig,
+          (value: Awaited<V>, prevSelected?: S) =>
+            selectorRef.current(value, prevSelected),
+          (prev: S, next: S) => equalityFnRef.current(prev, next)
+        ),
+      [atomConfig, ...deps]
+    );
+
+    return useAtomValueWithStore(selectedAtom, options) as S;
+  };
+
+  // 根据第一个参数是否是函数，决定读取整个值还是读取选择的部分
+  const useAtomValueOrSelectedWithStore = (
+    atomConfig: Atom<unknown>,
+    selectorOrOptions?: Selector<unknown, unknown> | UseAtomOptionsOrScope,
+    equalityFn?: (prev: unknown, next: unknown) => boolean,
+    options?: UseSelectorOptionsOrScope
+  ) =>
+    typeof selectorOrOptions === 'function'
+      ? useSelectedAtomValueWithStore(
+          atomConfig,
+          selectorOrOptions,
+          equalityFn,
+          options
+        )
+      : useAtomValueWithStore(atomConfig, selectorOrOptions);
+
   // 用于设置 Jotai 原子的值
   const useSetAtomWithStore: SetAtomFn = (atomConfig, optionsOrScope) => {
     const store = useStore(optionsOrScope);
@@ -425,6 +1207,20 @@ export const createAtomStore = <
     return useSetAtom(atomConfig, { store });
   };
 
+  // 用于获取用草稿更新函数更新 Jotai 原子值的函数
+  const useProduceWithStore = (
+    atomConfig: SimpleWritableAtom<unknown>,
+    optionsOrScope?: UseAtomOptionsOrScope
+  ) => {
+    const store = useJotaiStore({ store: useStore(optionsOrScope) });
+
+    return React.useCallback(
+      (recipe: ProduceRecipe<unknown>) =>
+        produceStore(store, atomConfig, producer, recipe),
+      [atomConfig, store]
+    );
+  };
+
   // 用于读取和设置 Jotai 原子的值
   const useAtomWithStore: UseAtomFn = (atomConfig, optionsOrScope) => {
     const store = useStore(optionsOrScope);
@@ -441,17 +1237,49 @@ export const createAtomStore = <
     const isWritable: boolean = atomIsWritable[key as keyof MyStoreAtoms];
 
     // 为 getAtoms 对象添加一个属性，属性名为 key，属性值为一个函数，该函数接受一个可选的 UseAtomOptionsOrScope 类型的参数 optionsOrScope，并返回一个值。
-    (getAtoms as any)[key] = (optionsOrScope: UseAtomOptionsOrScope = {}) =>
-      useAtomValueWithStore(atomConfig, optionsOrScope);
+    // 也可以传入选择器、相等函数和选项，只读取值的一部分。
+    // 还附加了 loadable 和 unwrap，用于在不挂起的情况下读取异步值。
+    (getAtoms as any)[key] = Object.assign(
+      (
+        selectorOrOptions?: Selector<unknown, unknown> | UseAtomOptionsOrScope,
+        equalityFn?: (prev: unknown, next: unknown) => boolean,
+        options?: UseSelectorOptionsOrScope
+      ) =>
+        useAtomValueOrSelectedWithStore(
+          atomConfig,
+          selectorOrOptions,
+          equalityFn,
+          options
+        ),
+      {
+        loadable: (optionsOrScope?: UseAtomOptionsOrScope) =>
+          useLoadableWithStore(atomConfig as Atom<unknown>, optionsOrScope),
+        unwrap: (fallback: unknown, optionsOrScope?: UseAtomOptionsOrScope) =>
+          getLoadableValue(
+            useLoadableWithStore(atomConfig as Atom<unknown>, optionsOrScope),
+            fallback
+          ),
+      }
+    );
 
     // 如果原子是可写的
     if (isWritable) {
       // 为 setAtoms 对象添加一个属性，属性名为 key，属性值为一个函数，该函数接受一个可选的 UseAtomOptionsOrScope 类型的参数 optionsOrScope，并返回一个函数。
-      (setAtoms as any)[key] = (optionsOrScope: UseAtomOptionsOrScope = {}) =>
-        useSetAtomWithStore(
-          atomConfig as WritableAtom<any, any, any>,
-          optionsOrScope
-        );
+      // 还附加了 produce，用草稿更新函数更新值。
+      (setAtoms as any)[key] = Object.assign(
+        (optionsOrScope: UseAtomOptionsOrScope = {}) =>
+          useSetAtomWithStore(
+            atomConfig as WritableAtom<any, any, any>,
+            optionsOrScope
+          ),
+        {
+          produce: (optionsOrScope?: UseAtomOptionsOrScope) =>
+            useProduceWithStore(
+              atomConfig as SimpleWritableAtom<unknown>,
+              optionsOrScope
+            ),
+        }
+      );
 
         // 为 useAtoms 对象添加一个属性，属性名为 key，属性值为一个函数，
         // 该函数接受一个可选的 UseAtomOptionsOrScope 类型的参数 optionsOrScope，并返回一个数组，数组中第一个元素是一个值，第二个元素是一个函数。
@@ -463,38 +1291,587 @@ export const createAtomStore = <
     }
   }
 
+  // 每个存储中原子族的缓存：键 -> 参数 -> 原子
+  const familyCaches = new WeakMap<
+    JotaiStore,
+    Map<string, Map<unknown, SimpleWritableAtom<unknown>>>
+  >();
+
+  const getFamilyCache = (store: JotaiStore, key: string) => {
+    let storeCaches = familyCaches.get(store);
+
+    if (!storeCaches) {
+      storeCaches = new Map();
+      familyCaches.set(store, storeCaches);
+    }
+
+    let cache = storeCaches.get(key);
+
+    if (!cache) {
+      cache = new Map();
+      storeCaches.set(key, cache);
+    }
+
+    return cache;
+  };
+
+  // 获取存储中一个参数对应的原子，第一次获取时用 initialFactory(param) 创建
+  const getFamilyAtom = (store: JotaiStore, key: string, param: unknown) => {
+    const cache = getFamilyCache(store, key);
+    let atomConfig = cache.get(param);
+
+    if (!atomConfig) {
+      atomConfig = atomWithFn(families[key].initialFactory(param));
+      if (devtools) {
+        atomConfig.debugLabel = `${name}.${key}(${String(param)})`;
+      }
+      cache.set(param, atomConfig);
+    }
+
+    return atomConfig;
+  };
+
+  // 重置存储中的键；重置所有键时，原子族缓存中的原子也重新调用 initialFactory(param)
+  const resetAtomStore = (
+    store: JotaiStore,
+    keys?: string[],
+    options?: ResetOptions
+  ) => {
+    resetStore(store, resettableAtoms, keys, options);
+
+    if (keys) return;
+
+    for (const [key, cache] of familyCaches.get(store) ?? []) {
+      for (const [param, atomConfig] of cache) {
+        store.set(atomConfig, families[key].initialFactory(param));
+      }
+    }
+  };
+
+  // 用于获取一个参数对应的原子，以及读取它的存储
+  const useFamilyAtomWithStore = (
+    key: string,
+    param: unknown,
+    options: UseAtomOptions
+  ) => {
+    const store = useJotaiStore({ store: useStore(options) });
+
+    return {
+      atomConfig: getFamilyAtom(store, key, param),
+      options: { ...options, store },
+    };
+  };
+
+  // 原子族的 hooks，第一个参数是原子族的参数
+  for (const key of Object.keys(families)) {
+    (getAtoms as any)[key] = (
+      param: unknown,
+      optionsOrScope?: UseAtomOptionsOrScope
+    ) => {
+      const { atomConfig, options } = useFamilyAtomWithStore(key, param, {
+        warnIfNoStore: false,
+        ...convertScopeShorthand(optionsOrScope),
+      });
+
+      return useAtomValueWithStore(atomConfig, options);
+    };
+
+    (setAtoms as any)[key] = (
+      param: unknown,
+      optionsOrScope?: UseAtomOptionsOrScope
+    ) => {
+      const { atomConfig, options } = useFamilyAtomWithStore(
+        key,
+        param,
+        convertScopeShorthand(optionsOrScope)
+      );
+
+      return useSetAtomWithStore(atomConfig, options);
+    };
+
+    (useAtoms as any)[key] = (
+      param: unknown,
+      optionsOrScope?: UseAtomOptionsOrScope
+    ) => {
+      const { atomConfig, options } = useFamilyAtomWithStore(
+        key,
+        param,
+        convertScopeShorthand(optionsOrScope)
+      );
+
+      return useAtomWithStore(atomConfig, options);
+    };
+  }
+
+  // 用于重置存储中的键，不传 key 时重置所有键
+  const useResetWithStore = (
+    key: string | undefined,
+    optionsOrScope?: UseResetOptionsOrScope
+  ) => {
+    const { baseline, ...options } = convertScopeShorthand(optionsOrScope);
+    const store = useJotaiStore({ store: useStore(options) });
+
+    return React.useCallback(
+      () => resetAtomStore(store, key ? [key] : undefined, { baseline }),
+      [baseline, key, store]
+    );
+  };
+
+  const resetAtoms = {} as Record<
+    string,
+    (options?: UseResetOptionsOrScope) => () => void
+  >;
+
+  for (const key of Object.keys(resettableAtoms)) {
+    resetAtoms[key] = (optionsOrScope) =>
+      useResetWithStore(key, optionsOrScope);
+  }
+
+  // 每个存储的动作只创建一次，因此动作的引用是稳定的
+  const actionsByStore = new WeakMap<JotaiStore, A>();
+
+  const getActions = (store: JotaiStore): A => {
+    let storeActions = actionsByStore.get(store);
+
+    if (!storeActions) {
+      storeActions = createActions
+        ? createActions({ get: store.get, set: store.set, atoms })
+        : ({} as A);
+      actionsByStore.set(store, storeActions);
+    }
+
+    return storeActions;
+  };
+
+  // 用于获取绑定到存储的动作，不订阅任何原子
+  const useActionWithStore = (
+    actionName: keyof A,
+    optionsOrScope?: UseAtomOptionsOrScope
+  ) => {
+    const store = useJotaiStore({ store: useStore(optionsOrScope) });
+
+    return getActions(store)[actionName];
+  };
+
+  // 事务失败时回滚的原子，即保存存储状态的原始原子
+  const rollbackAtoms = Object.values(resettableAtoms).map(
+    ({ atom: atomConfig }) => atomConfig
+  );
+
+  const transact = <R>(store: JotaiStore, fn: StoreTransaction<T, E, R>): R => {
+    // 原子族缓存中已有的原子也会回滚
+    const familyAtoms = new Set(
+      [...(familyCaches.get(store)?.values() ?? [])].flatMap((cache) => [
+        ...cache.values(),
+      ])
+    );
+
+    try {
+      return transactStore(
+        store,
+        [...rollbackAtoms, ...familyAtoms],
+        (get, set) => fn({ get, set, atoms })
+      );
+    } catch (error) {
+      // 事务中创建的原子族原子从缓存中移除，下次读取时重新调用 initialFactory(param)
+      for (const cache of familyCaches.get(store)?.values() ?? []) {
+        for (const [param, atomConfig] of cache) {
+          if (!familyAtoms.has(atomConfig)) cache.delete(param);
+        }
+      }
+
+      throw error;
+    }
+  };
+
+  const setMany = (store: JotaiStore, values: Record<string, unknown>) =>
+    transact(store, ({ set }) => {
+      for (const [key, value] of Object.entries(values)) {
+        if (!atomIsWritable[key as keyof MyStoreAtoms]) continue;
+
+        set(
+          atoms[key as keyof MyStoreAtoms] as SimpleWritableAtom<unknown>,
+          value
+        );
+      }
+    });
+
+  // 用于获取在一次写入中设置多个键的函数
+  const useSetManyWithStore = (optionsOrScope?: UseAtomOptionsOrScope) => {
+    const store = useJotaiStore({ store: useStore(optionsOrScope) });
+
+    return React.useCallback(
+      (values: SetManyValues<MyStoreAtoms>) => setMany(store, values),
+      [store]
+    );
+  };
+
+  // 用于获取绑定到存储的事务函数
+  const useTransactionWithStore = (optionsOrScope?: UseAtomOptionsOrScope) => {
+    const store = useJotaiStore({ store: useStore(optionsOrScope) });
+
+    return React.useCallback(
+      <R>(fn: StoreTransaction<T, E, R>) => transact(store, fn),
+      [store]
+    );
+  };
+
+  // 动作的 hooks 在访问时按名称创建，因此直到某个存储第一次需要动作时才调用动作工厂
+  const getActionHooks = (defaultOptions: UseAtomOptions) =>
+    new Proxy({} as UseActionsRecord<A>, {
+      get: (_target, actionName) => {
+        if (typeof actionName !== 'string') return;
+
+        return (optionsOrScope?: UseAtomOptionsOrScope) =>
+          useActionWithStore(actionName as keyof A, {
+            ...defaultOptions,
+            ...convertScopeShorthand(optionsOrScope),
+          });
+      },
+    });
+
+  // 订阅一个键时监听该键的原子，订阅多个键时监听这些键的原子组成的对象
+  const getSubscribeTarget = (keyOrKeys: string | string[]) =>
+    Array.isArray(keyOrKeys)
+      ? Object.fromEntries(
+          keyOrKeys.map((key) => [
+            key,
+            atoms[key as keyof MyStoreAtoms] as Atom<unknown>,
+          ])
+        )
+      : (atoms[keyOrKeys as keyof MyStoreAtoms] as Atom<unknown>);
+
+  // 用于在组件中订阅键的变化，组件卸载时自动取消订阅
+  const useStoreEffect = (
+    keyOrKeys: string | string[],
+    callback: StoreListener<any>,
+    optionsOrScope?: UseStoreEffectOptionsOrScope
+  ) => {
+    const { fireImmediately, ...options } =
+      convertScopeShorthand(optionsOrScope);
+    const store = useJotaiStore({ store: useStore(options) });
+
+    // 使用 ref 保存最新的回调，这样内联函数不会在每次渲染时重新订阅
+    const callbackRef = React.useRef(callback);
+    callbackRef.current = callback;
+
+    const keysDependency = JSON.stringify(keyOrKeys);
+
+    React.useEffect(
+      () =>
+        subscribeStore(
+          store,
+          getSubscribeTarget(keyOrKeys),
+          (value, prevValue, subscribedStore) =>
+            callbackRef.current(value, prevValue, subscribedStore),
+          { fireImmediately }
+        ),
+      [fireImmediately, keysDependency, store]
+    );
+  };
+
+  const errorsAtoms = {} as UseErrorsRecord<MyStoreInitialValues>;
+
+  for (const key of Object.keys(issuesAtoms)) {
+    (errorsAtoms as any)[key] = (optionsOrScope?: UseAtomOptionsOrScope) =>
+      useAtomValueWithStore(
+        issuesAtoms[key as keyof MyStoreInitialValues],
+        optionsOrScope
+      );
+  }
+
+  // 撤销/重做历史，未设置 history 选项时不跟踪任何键。
+  const history = createStoreHistory<MyStoreInitialValues>(
+    writableAtomsWithoutExtend,
+    historyOptions ?? { keys: [] }
+  );
+
   // Provider：接受一个 ProviderProps<MyStoreInitialValues> 类型的参数，返回一个 React 元素。
   const Provider: React.FC<ProviderProps<MyStoreInitialValues>> =
     createAtomProvider<MyStoreInitialValues, N>(
       name,
       writableAtomsWithoutExtend,
-      { effect }
+      {
+        effect,
+        getEffectHelpers: (store) => ({
+          get: Object.fromEntries(
+            Object.entries<
+              (lookup: StoreLookup, ...args: unknown[]) => unknown
+            >(getAtomsVanilla).map(([key, get]) => [
+              key,
+              (...args: unknown[]) => get(store, ...args),
+            ])
+          ),
+          set: Object.fromEntries(
+            Object.entries<
+              (lookup: StoreLookup, ...args: unknown[]) => unknown
+            >(setAtomsVanilla).map(([key, set]) => [
+              key,
+              (...args: unknown[]) => set(store, ...args),
+            ])
+          ),
+        }),
+        onInit,
+        onDispose,
+        persist,
+        broadcast,
+        urlSync,
+        inherit,
+        devtools,
+        history: historyOptions ? history : undefined,
+        snapshotAtoms,
+        serializers,
+        reset: resetAtomStore,
+        syncMode,
+        propsAtom:
+          Object.keys(lazyInitialValues).length > 0 ? lazyPropsAtom : undefined,
+      }
+    );
+
+  // 在 React 之外查找存储：与 useStore 相同的查找顺序，找不到时回退到全局存储或 Jotai 的默认存储。
+  const resolveStore = (lookup?: StoreLookup): JotaiStore => {
+    if (isJotaiStore(lookup)) return lookup;
+
+    const {
+      scope,
+      store,
+      warnIfNoStore = true,
+      strict = strictRoot,
+    } = convertScopeShorthand(lookup);
+    const mountedStore =
+      store ?? getAtomStore(name, scope, strict) ?? globalStore;
+
+    if (!mountedStore && warnIfNoStore) {
+      console.warn(
+        `Tried to access jotai store '${name}' outside of a matching provider.`
+      );
+    }
+
+    return mountedStore ?? getDefaultStore();
+  };
+
+  const getAtomVanilla: VanillaGetAtomFn = (lookup, atomConfig) =>
+    resolveStore(lookup).get(atomConfig);
+
+  const setAtomVanilla: VanillaSetAtomFn = (lookup, atomConfig, ...args) =>
+    resolveStore(lookup).set(atomConfig, ...args);
+
+  const subscribeAtomVanilla: VanillaSubscribeAtomFn = (
+    lookup,
+    atomConfig,
+    listener,
+    options
+  ) =>
+    subscribeStore(
+      resolveStore(lookup),
+      atomConfig as Atom<unknown>,
+      listener,
+      options
     );
 
+  const subscribeKeysVanilla = ((
+    lookup: StoreLookup | undefined,
+    keyOrKeys: string | string[],
+    listener: StoreListener<any>,
+    options?: SubscribeOptions
+  ) =>
+    subscribeStore(
+      resolveStore(lookup),
+      getSubscribeTarget(keyOrKeys),
+      listener,
+      options
+    )) as VanillaSubscribeFn<StoreState<T, E>>;
+
+  const getAtomsVanilla = {} as VanillaGetRecord<
+    MyStoreAtoms & MyStoreFamilies
+  >;
+  const setAtomsVanilla = {} as VanillaSetRecord<
+    MyWritableStoreAtoms & MyStoreFamilies
+  >;
+  const familyVanilla = {} as VanillaFamilyRecord<MyStoreFamilies>;
+  const subscribeAtomsVanilla = {} as VanillaSubscribeRecord<MyStoreAtoms>;
+
+  for (const key of Object.keys(atoms)) {
+    const atomConfig = atoms[key as keyof MyStoreAtoms];
+
+    (getAtomsVanilla as any)[key] = (lookup?: StoreLookup) =>
+      getAtomVanilla(lookup, atomConfig);
+
+    (subscribeAtomsVanilla as any)[key] = (
+      lookup: StoreLookup | undefined,
+      listener: StoreListener<unknown>,
+      options?: SubscribeOptions
+    ) => subscribeAtomVanilla(lookup, atomConfig, listener, options);
+
+    if (atomIsWritable[key as keyof MyStoreAtoms]) {
+      (setAtomsVanilla as any)[key] = Object.assign(
+        (lookup: StoreLookup | undefined, ...args: unknown[]) =>
+          setAtomVanilla(
+            lookup,
+            atomConfig as WritableAtom<any, unknown[], any>,
+            ...args
+          ),
+        {
+          produce: (
+            lookup: StoreLookup | undefined,
+            recipe: ProduceRecipe<unknown>
+          ) =>
+            produceStore(
+              resolveStore(lookup),
+              atomConfig as SimpleWritableAtom<unknown>,
+              producer,
+              recipe
+            ),
+        }
+      );
+    }
+  }
+
+  for (const key of Object.keys(families)) {
+    (getAtomsVanilla as any)[key] = (
+      lookup: StoreLookup | undefined,
+      param: unknown
+    ) => {
+      const store = resolveStore(lookup);
+
+      return store.get(getFamilyAtom(store, key, param));
+    };
+
+    (setAtomsVanilla as any)[key] = (
+      lookup: StoreLookup | undefined,
+      param: unknown,
+      value: unknown
+    ) => {
+      const store = resolveStore(lookup);
+
+      store.set(getFamilyAtom(store, key, param), value);
+    };
+
+    // 移除之后，原子可以被垃圾回收；再次读取时重新用 initialFactory(param) 创建
+    (familyVanilla as any)[key] = {
+      remove: (lookup: StoreLookup | undefined, param: unknown) => {
+        familyCaches.get(resolveStore(lookup))?.get(key)?.delete(param);
+      },
+    };
+  }
+
+  // 原子族的键，它们的 hooks 的选项是第二个参数
+  const familyKeys = Object.keys(families);
+
   // 用于存储 Jotai 原子存储
-  const storeApi: StoreApi<T, E, N> = {
+  const storeApi: StoreApi<T, E, N, A> = {
     atom: atoms,
     name,
+    get: { ...getAtomsVanilla, atom: getAtomVanilla },
+    set: { ...setAtomsVanilla, atom: setAtomVanilla },
+    family: familyVanilla,
+    // 使用属性描述符定义，这样 name 或 length 等键不会与函数自身的只读属性冲突
+    subscribe: Object.defineProperties(
+      subscribeKeysVanilla,
+      Object.getOwnPropertyDescriptors({
+        ...subscribeAtomsVanilla,
+        atom: subscribeAtomVanilla,
+      })
+    ) as StoreApi<T, E, N, A>['subscribe'],
+    getState: (lookup) => {
+      const store = resolveStore(lookup);
+
+      return Object.fromEntries(
+        Object.entries(atoms).map(([key, atomConfig]) => [
+          key,
+          store.get(atomConfig as Atom<unknown>),
+        ])
+      ) as StoreState<T, E>;
+    },
+    dehydrate: (lookup) =>
+      dehydrateStore(resolveStore(lookup), snapshotAtoms, serializers),
+    reset: (lookup, keys, options) =>
+      resetAtomStore(
+        resolveStore(lookup),
+        keys as string[] | undefined,
+        options
+      ),
+    actions: (lookup) => getActions(resolveStore(lookup)),
+    setMany: (lookup, values) => setMany(resolveStore(lookup), values),
+    transaction: (lookup, fn) => transact(resolveStore(lookup), fn),
+    createStore: (initialValues = {}) => {
+      const store = createStore();
+      const values = Object.entries(writableAtomsWithoutExtend)
+        .filter(
+          ([key]) =>
+            initialValues[key as keyof MyStoreInitialValues] !== undefined
+        )
+        .map(
+          ([key, atomConfig]) =>
+            [
+              atomConfig as SimpleWritableAtom<unknown>,
+              initialValues[key as keyof MyStoreInitialValues],
+            ] as const
+        );
+
+      // 初始化的值也作为重置的基准
+      setHydratedValues(store, values);
+
+      for (const [atomConfig, value] of values) {
+        store.set(atomConfig, value);
+      }
+
+      return store;
+    },
+    defaultStore: globalStore ?? getDefaultStore(),
+    history: {
+      undo: (lookup) => resolveStore(lookup).set(history.undoAtom),
+      redo: (lookup) => resolveStore(lookup).set(history.redoAtom),
+      clear: (lookup) => resolveStore(lookup).set(history.clearAtom),
+      canUndo: (lookup) => resolveStore(lookup).get(history.canUndoAtom),
+      canRedo: (lookup) => resolveStore(lookup).get(history.canRedoAtom),
+    },
   };
 
-  // 接受一个可选的 UseAtomOptionsOrScope 类型的参数 defaultOptions，返回一个对象，该对象包含 get、set、use 和 store 属性。
-  const useStoreApi: UseStoreApi<T, E> = (defaultOptions = {}) => ({
+  // 接受一个可选的 UseAtomOptionsOrScope 类型的参数 defaultOptions，返回一个对象，该对象包含 get、set、use、store 和 history 属性。
+  const useStoreApi: UseStoreApi<T, E, A, Suspense> = (
+    defaultOptions = {}
+  ) => ({
     // 表示一个对象，其中每个属性都是一个函数，该函数可以读取 Jotai 原子的值。
     get: {
       // 使用 withDefaultOptions 函数为 getAtoms 对象添加默认选项。
-      ...withDefaultOptions(getAtoms, convertScopeShorthand(defaultOptions)),
+      ...withDefaultOptions(
+        getAtoms,
+        convertScopeShorthand(defaultOptions),
+        familyKeys
+      ),
       // 为 get 对象添加一个属性，属性名为 atom，属性值为一个函数，
       // 该函数接受一个原子配置 atomConfig 和一个可选的 UseAtomOptionsOrScope 类型的参数 options，并返回一个值。
-      atom: (atomConfig, options) =>
-        useAtomValueWithStore(atomConfig, {
-          ...convertScopeShorthand(defaultOptions),
-          ...convertScopeShorthand(options),
-        }),
+      // 如果第二个参数是选择器，则选项是第四个参数。
+      atom: ((
+        atomConfig: Atom<unknown>,
+        selectorOrOptions?: Selector<unknown, unknown> | UseAtomOptionsOrScope,
+        equalityFn?: (prev: unknown, next: unknown) => boolean,
+        options?: UseSelectorOptionsOrScope
+      ) =>
+        typeof selectorOrOptions === 'function'
+          ? useSelectedAtomValueWithStore(
+              atomConfig,
+              selectorOrOptions,
+              equalityFn,
+              {
+                ...convertScopeShorthand(defaultOptions),
+                ...convertScopeShorthand(options),
+              }
+            )
+          : useAtomValueWithStore(atomConfig, {
+              ...convertScopeShorthand(defaultOptions),
+              ...convertScopeShorthand(selectorOrOptions),
+            })) as GetAtomFn<Suspense>,
     },
     // 表示一个对象，其中每个属性都是一个函数，该函数可以设置 Jotai 原子的值。
     set: {
       // 使用 withDefaultOptions 函数为 setAtoms 对象添加默认选项。
-      ...withDefaultOptions(setAtoms, convertScopeShorthand(defaultOptions)),
+      ...withDefaultOptions(
+        setAtoms,
+        convertScopeShorthand(defaultOptions),
+        familyKeys
+      ),
       // 为 set 对象添加一个属性，属性名为 atom，属性值为一个函数，
       // 该函数接受一个原子配置 atomConfig 和一个可选的 UseAtomOptionsOrScope 类型的参数 options，并返回一个函数。
       atom: (atomConfig, options) =>
@@ -506,7 +1883,11 @@ export const createAtomStore = <
     // 表示一个对象，其中每个属性都是一个函数，该函数可以读取和设置 Jotai 原子的值。
     use: {
       // 使用 withDefaultOptions 函数为 useAtoms 对象添加默认选项。
-      ...withDefaultOptions(useAtoms, convertScopeShorthand(defaultOptions)),
+      ...withDefaultOptions(
+        useAtoms,
+        convertScopeShorthand(defaultOptions),
+        familyKeys
+      ),
       // 为 use 对象添加一个属性，属性名为 atom，属性值为一个函数，
       // 该函数接受一个原子配置 atomConfig 和一个可选的 UseAtomOptionsOrScope 类型的参数 options，并返回一个数组，数组中第一个元素是一个值，第二个元素是一个函数。
       atom: (atomConfig, options) =>
@@ -522,6 +1903,62 @@ export const createAtomStore = <
         ...convertScopeShorthand(defaultOptions),
         ...convertScopeShorthand(options),
       }),
+    // 表示重置的 hooks。
+    reset: withDefaultOptions(
+      resetAtoms,
+      convertScopeShorthand(defaultOptions)
+    ) as UseResetApi<T, E>,
+    // 表示重置所有键的 hook。
+    resetAll: (options) =>
+      useResetWithStore(undefined, {
+        ...convertScopeShorthand(defaultOptions),
+        ...convertScopeShorthand(options),
+      }),
+    // 表示在一次写入中设置多个键的 hook。
+    setMany: (options) =>
+      useSetManyWithStore({
+        ...convertScopeShorthand(defaultOptions),
+        ...convertScopeShorthand(options),
+      }),
+    // 表示返回事务函数的 hook。
+    transaction: (options) =>
+      useTransactionWithStore({
+        ...convertScopeShorthand(defaultOptions),
+        ...convertScopeShorthand(options),
+      }),
+    // 表示动作的 hooks。
+    actions: getActionHooks(convertScopeShorthand(defaultOptions)),
+    // 表示校验问题的 hooks。
+    errors: withDefaultOptions(
+      errorsAtoms,
+      convertScopeShorthand(defaultOptions)
+    ),
+    // 表示订阅键的变化的 hook。
+    effect: ((
+      keyOrKeys: string | string[],
+      callback: StoreListener<any>,
+      options?: UseStoreEffectOptionsOrScope
+    ) =>
+      useStoreEffect(keyOrKeys, callback, {
+        ...convertScopeShorthand(defaultOptions),
+        ...convertScopeShorthand(options),
+      })) as UseStoreEffectFn<StoreState<T, E>>,
+    // 表示撤销/重做历史的 hooks。
+    history: withDefaultOptions(
+      {
+        undo: (options?: UseAtomOptionsOrScope) =>
+          useSetAtomWithStore(history.undoAtom, options),
+        redo: (options?: UseAtomOptionsOrScope) =>
+          useSetAtomWithStore(history.redoAtom, options),
+        clear: (options?: UseAtomOptionsOrScope) =>
+          useSetAtomWithStore(history.clearAtom, options),
+        canUndo: (options?: UseAtomOptionsOrScope) =>
+          useAtomValueWithStore(history.canUndoAtom, options),
+        canRedo: (options?: UseAtomOptionsOrScope) =>
+          useAtomValueWithStore(history.canRedoAtom, options),
+      },
+      convertScopeShorthand(defaultOptions)
+    ),
   });
 
   return {
@@ -0,0 +1,212 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+
+describe('createStoreHistory', () => {
+  type MyHistoryStoreValue = {
+    text: string;
+    selection: number;
+  };
+
+  const initialHistoryStoreValue: MyHistoryStoreValue = {
+    text: '',
+    selection: 0,
+  };
+
+  const { editorStore, useEditorStore, EditorProvider } = createAtomStore(
+    initialHistoryStoreValue,
+    {
+      name: 'editor' as const,
+      history: { keys: ['text'], limit: 2 },
+    }
+  );
+
+  const Editor = ({ scope }: { scope?: string }) => {
+    const [text, setText] = useEditorStore(scope).use.text();
+    const setSelection = useEditorStore(scope).set.selection();
+    const undo = useEditorStore(scope).history.undo();
+    const redo = useEditorStore(scope).history.redo();
+    const clear = useEditorStore(scope).history.clear();
+    const canUndo = useEditorStore(scope).history.canUndo();
+    const canRedo = useEditorStore(scope).history.canRedo();
+
+    return (
+      <div>
+        <div>
+          {scope} text: {text}
+        </div>
+        <div>
+          {scope} canUndo: {canUndo.toString()}, canRedo: {canRedo.toString()}
+        </div>
+        <button type="button" onClick={() => setText(`${text}a`)}>
+          {scope} type
+        </button>
+        <button type="button" onClick={() => setSelection(1)}>
+          {scope} select
+        </button>
+        <button type="button" onClick={undo}>
+          {scope} undo
+        </button>
+        <button type="button" onClick={redo}>
+          {scope} redo
+        </button>
+        <button type="button" onClick={clear}>
+          {scope} clear
+        </button>
+      </div>
+    );
+  };
+
+  it('undoes and redoes changes of tracked keys', () => {
+    const { getByText } = render(
+      <EditorProvider>
+        <Editor />
+      </EditorProvider>
+    );
+
+    expect(getByText('canUndo: false, canRedo: false')).toBeInTheDocument();
+
+    act(() => getByText('type').click());
+    act(() => getByText('type').click());
+    act(() => getByText('select').click());
+
+    expect(getByText('text: aa')).toBeInTheDocument();
+    expect(getByText('canUndo: true, canRedo: false')).toBeInTheDocument();
+
+    act(() => getByText('undo').click());
+    expect(getByText('text: a')).toBeInTheDocument();
+    expect(getByText('canUndo: true, canRedo: true')).toBeInTheDocument();
+
+    act(() => getByText('redo').click());
+    expect(getByText('text: aa')).toBeInTheDocument();
+    expect(getByText('canUndo: true, canRedo: false')).toBeInTheDocument();
+  });
+
+  it('limits the number of undo steps', () => {
+    const { getByText } = render(
+      <EditorProvider>
+        <Editor />
+      </EditorProvider>
+    );
+
+    act(() => getByText('type').click());
+    act(() => getByText('type').click());
+    act(() => getByText('type').click());
+
+    act(() => getByText('undo').click());
+    act(() => getByText('undo').click());
+    act(() => getByText('undo').click());
+
+    expect(getByText('text: a')).toBeInTheDocument();
+    expect(getByText('canUndo: false, canRedo: true')).toBeInTheDocument();
+  });
+
+  it('clears the history', () => {
+    const { getByText } = render(
+      <EditorProvider>
+        <Editor />
+      </EditorProvider>
+    );
+
+    act(() => getByText('type').click());
+    act(() => getByText('clear').click());
+
+    expect(getByText('text: a')).toBeInTheDocument();
+    expect(getByText('canUndo: false, canRedo: false')).toBeInTheDocument();
+  });
+
+  it('clears the history when resetKey changes', () => {
+    const { getByText, rerender } = render(
+      <EditorProvider resetKey={0}>
+        <Editor />
+      </EditorProvider>
+    );
+
+    act(() => getByText('type').click());
+    expect(getByText('canUndo: true, canRedo: false')).toBeInTheDocument();
+
+    rerender(
+      <EditorProvider resetKey={1}>
+        <Editor />
+      </EditorProvider>
+    );
+
+    expect(getByText('text:')).toBeInTheDocument();
+    expect(getByText('canUndo: false, canRedo: false')).toBeInTheDocument();
+  });
+
+  it('keeps a separate history for each provider', () => {
+    const { getByText } = render(
+      <EditorProvider scope="first">
+        <Editor scope="first" />
+        <EditorProvider scope="second">
+          <Editor scope="second" />
+        </EditorProvider>
+      </EditorProvider>
+    );
+
+    act(() => getByText('first type').click());
+    act(() => getByText('second type').click());
+    act(() => getByText('second type').click());
+    act(() => getByText('first undo').click());
+
+    expect(getByText('first text:')).toBeInTheDocument();
+    expect(getByText('second text: aa')).toBeInTheDocument();
+    expect(
+      getByText('second canUndo: true, canRedo: false')
+    ).toBeInTheDocument();
+  });
+
+  it('groups changes within the group window', () => {
+    const {
+      editorStore: groupedStore,
+      useEditorStore: useGroupedStore,
+      EditorProvider: GroupedProvider,
+    } = createAtomStore(initialHistoryStoreValue, {
+      name: 'editor' as const,
+      history: { keys: ['text'], groupWindow: 1000 },
+    });
+
+    const now = jest.spyOn(Date, 'now');
+    let jotaiStore = createStore();
+
+    const StoreReader = () => {
+      jotaiStore = useGroupedStore().store()!;
+      return null;
+    };
+
+    render(
+      <GroupedProvider>
+        <StoreReader />
+      </GroupedProvider>
+    );
+
+    now.mockReturnValue(10_000);
+    act(() => groupedStore.set.text(jotaiStore, 'a'));
+    now.mockReturnValue(10_500);
+    act(() => groupedStore.set.text(jotaiStore, 'ab'));
+    now.mockReturnValue(12_000);
+    act(() => groupedStore.set.text(jotaiStore, 'abc'));
+
+    act(() => groupedStore.history.undo(jotaiStore));
+    expect(groupedStore.get.text(jotaiStore)).toBe('ab');
+
+    act(() => groupedStore.history.undo(jotaiStore));
+    expect(groupedStore.get.text(jotaiStore)).toBe('');
+    expect(groupedStore.history.canUndo(jotaiStore)).toBe(false);
+
+    now.mockRestore();
+  });
+
+  it('does not track changes in stores without a provider', () => {
+    const store = createStore();
+
+    editorStore.set.text(store, 'a');
+
+    expect(editorStore.history.canUndo(store)).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { atom } from 'jotai';
+
+import type {
+  JotaiStore,
+  SimpleWritableAtom,
+  SimpleWritableAtomRecord,
+} from './createAtomStore';
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+
+/**
+ * 撤销/重做历史的选项。
+ */
+export type HistoryOptions<T> = {
+  /**
+   * Keys tracked by the history.
+   */
+  keys: (keyof T)[];
+  /**
+   * Maximum number of undo steps. Defaults to 100.
+   */
+  limit?: number;
+  /**
+   * Changes made within this number of milliseconds of the previous change
+   * are grouped into a single undo step. Defaults to 0 (no grouping).
+   */
+  groupWindow?: number;
+};
+
+type HistorySnapshot = Record<string, unknown>;
+
+/**
+ * 历史状态保存在原子中，因此每个 Jotai 存储（即每个 Provider）都有自己的历史栈。
+ */
+type HistoryState = {
+  past: HistorySnapshot[];
+  present: HistorySnapshot | undefined;
+  future: HistorySnapshot[];
+  lastChangeAt: number;
+};
+
+export type StoreHistory = {
+  canUndoAtom: Atom<boolean>;
+  canRedoAtom: Atom<boolean>;
+  undoAtom: WritableAtom<null, [], void>;
+  redoAtom: WritableAtom<null, [], void>;
+  clearAtom: WritableAtom<null, [], void>;
+  /**
+   * Start recording changes of the tracked keys in the given store. Returns a
+   * function that stops recording.
+   */
+  track: (store: JotaiStore) => () => void;
+};
+
+const isSameSnapshot = (a: HistorySnapshot, b: HistorySnapshot) =>
+  Object.keys(a).every((key) => Object.is(a[key], b[key]));
+
+/**
+ * Creates the atoms implementing undo/redo for the tracked keys of a store.
+ */
+export const createStoreHistory = <T>(
+  atoms: SimpleWritableAtomRecord<T>,
+  { keys, limit = 100, groupWindow = 0 }: HistoryOptions<T>
+): StoreHistory => {
+  const trackedAtoms = keys.map(
+    (key) => [key, atoms[key]] as [keyof T, SimpleWritableAtom<unknown>]
+  );
+
+  const historyAtom = atom<HistoryState>({
+    past: [],
+    present: undefined,
+    future: [],
+    lastChangeAt: 0,
+  });
+
+  const getSnapshot = (get: <V>(anAtom: Atom<V>) => V) =>
+    Object.fromEntries(
+      trackedAtoms.map(([key, atomConfig]) => [key, get(atomConfig)])
+    );
+
+  // 记录一次变化：撤销/重做写入的快照与 present 相同，因此不会被记录
+  const recordAtom = atom(null, (get, set) => {
+    const history = get(historyAtom);
+    const snapshot = getSnapshot(get);
+
+    if (!history.present) {
+      set(historyAtom, { ...history, present: snapshot });
+      return;
+    }
+
+    if (isSameSnapshot(snapshot, history.present)) return;
+
+    const now = Date.now();
+    const grouped =
+      history.past.length > 0 && now - history.lastChangeAt < groupWindow;
+
+    set(historyAtom, {
+      past: grouped
+        ? history.past
+        : [...history.past, history.present].slice(-limit),
+      present: snapshot,
+      future: [],
+      lastChangeAt: now,
+    });
+  });
+
+  const applySnapshot = (
+    set: <A extends unknown[]>(
+      anAtom: WritableAtom<unknown, A, unknown>,
+      ...args: A
+    ) => void,
+    snapshot: HistorySnapshot
+  ) => {
+    for (const [key, atomConfig] of trackedAtoms) {
+      set(atomConfig, snapshot[key as string]);
+    }
+  };
+
+  const undoAtom = atom(null, (get, set) => {
+    const { past, present, future } = get(historyAtom);
+    const [previous] = past.slice(-1);
+
+    if (!previous || !present) return;
+
+    set(historyAtom, {
+      past: past.slice(0, -1),
+      present: previous,
+      future: [present, ...future],
+      lastChangeAt: 0,
+    });
+    applySnapshot(set, previous);
+  });
+
+  const redoAtom = atom(null, (get, set) => {
+    const { past, present, future } = get(historyAtom);
+    const [next, ...rest] = future;
+
+    if (!next || !present) return;
+
+    set(historyAtom, {
+      past: [...past, present].slice(-limit),
+      present: next,
+      future: rest,
+      lastChangeAt: 0,
+    });
+    applySnapshot(set, next);
+  });
+
+  const clearAtom = atom(null, (get, set) => {
+    set(historyAtom, {
+      past: [],
+      present: getSnapshot(get),
+      future: [],
+      lastChangeAt: 0,
+    });
+  });
+
+  return {
+    canUndoAtom: atom((get) => get(historyAtom).past.length > 0),
+    canRedoAtom: atom((get) => get(historyAtom).future.length > 0),
+    undoAtom,
+    redoAtom,
+    clearAtom,
+    track: (store) => {
+      store.set(recordAtom);
+
+      const unsubscribes = trackedAtoms.map(([, atomConfig]) =>
+        store.sub(atomConfig, () => store.set(recordAtom))
+      );
+
+      return () => {
+        for (const unsubscribe of unsubscribes) unsubscribe();
+      };
+    },
+  };
+};
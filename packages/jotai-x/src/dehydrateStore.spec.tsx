@@ -0,0 +1,110 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { render } from '@testing-library/react';
+import { atom, createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+
+describe('dehydrateStore', () => {
+  type MySsrStoreValue = {
+    name: string;
+    updatedAt: Date;
+    tags: Map<string, number>;
+    onChange: () => void;
+  };
+
+  const initialSsrStoreValue: MySsrStoreValue = {
+    name: 'John',
+    updatedAt: new Date(0),
+    tags: new Map(),
+    onChange: () => {},
+  };
+
+  const { ssrStore, useSsrStore, SsrProvider } = createAtomStore(
+    initialSsrStoreValue,
+    {
+      name: 'ssr' as const,
+      extend: ({ name }) => ({
+        count: atom(0),
+        greeting: atom((get) => `Hello ${get(name)}`),
+      }),
+      serializers: {
+        updatedAt: {
+          serialize: (value) => value.toISOString(),
+          deserialize: (value: string) => new Date(value),
+        },
+        tags: {
+          serialize: (value) => [...value.entries()],
+          deserialize: (value: [string, number][]) => new Map(value),
+        },
+      },
+    }
+  );
+
+  const Consumer = () => {
+    const name = useSsrStore().get.name();
+    const updatedAt = useSsrStore().get.updatedAt();
+    const tags = useSsrStore().get.tags();
+    const count = useSsrStore().get.count();
+    const greeting = useSsrStore().get.greeting();
+
+    return (
+      <>
+        <div>name: {name}</div>
+        <div>updatedAt: {updatedAt.getUTCFullYear()}</div>
+        <div>tags: {tags.get('a')}</div>
+        <div>count: {count}</div>
+        <div>{greeting}</div>
+      </>
+    );
+  };
+
+  const createServerSnapshot = () => {
+    const store = createStore();
+
+    ssrStore.set.name(store, 'Jane');
+    ssrStore.set.updatedAt(store, new Date('2020-01-01T00:00:00.000Z'));
+    ssrStore.set.tags(store, new Map([['a', 1]]));
+    ssrStore.set.count(store, 5);
+
+    return JSON.parse(JSON.stringify(ssrStore.dehydrate(store)));
+  };
+
+  it('produces a JSON-safe snapshot', () => {
+    expect(createServerSnapshot()).toEqual({
+      name: 'Jane',
+      updatedAt: '2020-01-01T00:00:00.000Z',
+      tags: [['a', 1]],
+      count: 5,
+    });
+  });
+
+  it('rehydrates a snapshot', () => {
+    const { getByText } = render(
+      <SsrProvider snapshot={createServerSnapshot()}>
+        <Consumer />
+      </SsrProvider>
+    );
+
+    expect(getByText('name: Jane')).toBeInTheDocument();
+    expect(getByText('updatedAt: 2020')).toBeInTheDocument();
+    expect(getByText('tags: 1')).toBeInTheDocument();
+    expect(getByText('count: 5')).toBeInTheDocument();
+    expect(getByText('Hello Jane')).toBeInTheDocument();
+  });
+
+  it('prefers the snapshot over initial values', () => {
+    const { getByText } = render(
+      <SsrProvider
+        initialValues={{ name: 'Initial' }}
+        snapshot={{ count: 2, name: 'Snapshot' }}
+      >
+        <Consumer />
+      </SsrProvider>
+    );
+
+    expect(getByText('name: Snapshot')).toBeInTheDocument();
+    expect(getByText('count: 2')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,100 @@
+import { useHydrateAtoms } from 'jotai/utils';
+
+import { setHydratedValues } from './resetStore';
+
+import type { JotaiStore } from './createAtomStore';
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+
+/**
+ * 存储的 JSON 快照，由 dehydrate 生成，通过 Provider 的 snapshot 属性恢复。
+ */
+export type StoreSnapshot = Record<string, unknown>;
+
+/**
+ * 自定义序列化器，用于 Date、Map 等不能直接转换为 JSON 的值。
+ */
+export type StoreSerializer<V> = {
+  serialize: (value: V) => unknown;
+  deserialize: (serializedValue: any) => V;
+};
+
+/**
+ * 每个键的自定义序列化器。
+ */
+export type StoreSerializers<T> = {
+  [K in keyof T]?: StoreSerializer<T[K]>;
+};
+
+/**
+ * 可以生成快照的原子：未扩展的可写原子，以及通过 extend 添加的基础（可写）原子。
+ */
+export type SnapshotAtomRecord = Record<string, WritableAtom<any, [any], any>>;
+
+/**
+ * 判断一个值是否可以放入快照：函数（例如 atomWithFn 保存的函数）和原子会被排除。
+ */
+const isSerializable = (value: unknown) =>
+  value !== undefined &&
+  typeof value !== 'function' &&
+  !(
+    !!value &&
+    typeof value === 'object' &&
+    'read' in value &&
+    typeof value.read === 'function'
+  );
+
+/**
+ * Serialize the state of a store into a JSON-safe snapshot. Function values
+ * and atoms are excluded.
+ */
+export const dehydrateStore = (
+  store: JotaiStore,
+  atoms: SnapshotAtomRecord,
+  serializers: StoreSerializers<any> = {}
+): StoreSnapshot => {
+  const snapshot: StoreSnapshot = {};
+
+  for (const [key, atomConfig] of Object.entries(atoms)) {
+    const value = store.get(atomConfig as Atom<unknown>);
+
+    if (!isSerializable(value)) continue;
+
+    const serializer = serializers[key];
+    snapshot[key] = serializer ? serializer.serialize(value) : value;
+  }
+
+  return snapshot;
+};
+
+/**
+ * Hydrate atoms from a snapshot produced by `dehydrateStore`. Keys present in
+ * the snapshot take precedence over the Provider's initial values.
+ */
+export const useRehydrateStore = (
+  atoms: SnapshotAtomRecord,
+  snapshot: StoreSnapshot | undefined,
+  serializers: StoreSerializers<any> = {},
+  options: Parameters<typeof useHydrateAtoms>[1] = {}
+) => {
+  const values: [WritableAtom<unknown, [unknown], unknown>, unknown][] = [];
+
+  if (snapshot) {
+    for (const [key, atomConfig] of Object.entries(atoms)) {
+      if (!(key in snapshot)) continue;
+
+      const serializer = serializers[key];
+      const serializedValue = snapshot[key];
+
+      values.push([
+        atomConfig,
+        serializer ? serializer.deserialize(serializedValue) : serializedValue,
+      ]);
+    }
+  }
+
+  if (options.store) {
+    setHydratedValues(options.store, values);
+  }
+
+  useHydrateAtoms(values, options);
+};
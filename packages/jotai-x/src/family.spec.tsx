@@ -0,0 +1,137 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+import { family } from './family';
+
+import type { StoreFamily } from './family';
+
+describe('family', () => {
+  type MyTableStoreValue = {
+    title: string;
+    row: StoreFamily<number, { id: number; label: string }>;
+  };
+
+  const initialTableStoreValue: MyTableStoreValue = {
+    title: 'Table',
+    row: family((id: number) => ({ id, label: `Row ${id}` })),
+  };
+
+  const { tableStore, useTableStore, TableProvider } = createAtomStore(
+    initialTableStoreValue,
+    { name: 'table' as const }
+  );
+
+  const Row = ({ id }: { id: number }) => {
+    const [row, setRow] = useTableStore().use.row(id);
+
+    return (
+      <button
+        type="button"
+        onClick={() => setRow({ ...row, label: `${row.label}!` })}
+      >
+        {row.label}
+      </button>
+    );
+  };
+
+  const RowLabel = ({ id }: { id: number }) => {
+    const row = useTableStore().get.row(id);
+
+    return <div>label {row.label}</div>;
+  };
+
+  it('creates an atom for each parameter', () => {
+    const { getByText } = render(
+      <TableProvider>
+        <Row id={1} />
+        <Row id={2} />
+        <RowLabel id={1} />
+      </TableProvider>
+    );
+
+    act(() => getByText('Row 1').click());
+
+    expect(getByText('Row 1!')).toBeInTheDocument();
+    expect(getByText('Row 2')).toBeInTheDocument();
+    expect(getByText('label Row 1!')).toBeInTheDocument();
+  });
+
+  it('caches the atoms separately for each Provider', () => {
+    const { getByText, getAllByText } = render(
+      <>
+        <TableProvider>
+          <Row id={1} />
+        </TableProvider>
+        <TableProvider>
+          <RowLabel id={1} />
+        </TableProvider>
+      </>
+    );
+
+    act(() => getByText('Row 1').click());
+
+    expect(getAllByText('Row 1!')).toHaveLength(1);
+    expect(getByText('label Row 1')).toBeInTheDocument();
+  });
+
+  it('gets, sets and removes atoms with the vanilla API', () => {
+    const store = createStore();
+
+    expect(tableStore.get.row(store, 3)).toEqual({ id: 3, label: 'Row 3' });
+
+    tableStore.set.row(store, 3, { id: 3, label: 'Changed' });
+    expect(tableStore.get.row(store, 3).label).toBe('Changed');
+    expect(tableStore.get.row(createStore(), 3).label).toBe('Row 3');
+
+    tableStore.family.row.remove(store, 3);
+    expect(tableStore.get.row(store, 3).label).toBe('Row 3');
+  });
+
+  it('resets the atoms of each parameter with the store', () => {
+    const store = createStore();
+
+    tableStore.set.row(store, 1, { id: 1, label: 'Changed' });
+    tableStore.reset(store, ['title']);
+    expect(tableStore.get.row(store, 1).label).toBe('Changed');
+
+    tableStore.reset(store);
+    expect(tableStore.get.row(store, 1).label).toBe('Row 1');
+  });
+
+  it('resets the atoms of each parameter when resetKey changes', () => {
+    const { getByText, rerender } = render(
+      <TableProvider resetKey={0}>
+        <Row id={1} />
+      </TableProvider>
+    );
+
+    act(() => getByText('Row 1').click());
+    expect(getByText('Row 1!')).toBeInTheDocument();
+
+    rerender(
+      <TableProvider resetKey={1}>
+        <Row id={1} />
+      </TableProvider>
+    );
+
+    expect(getByText('Row 1')).toBeInTheDocument();
+  });
+
+  it('excludes families from the store state', () => {
+    expect(tableStore.getState(createStore())).toEqual({ title: 'Table' });
+  });
+
+  it('types the parameter', () => {
+    const store = createStore();
+
+    // @ts-expect-error the parameter must be a number
+    tableStore.get.row(store, 'first');
+
+    // @ts-expect-error the value must be a row
+    tableStore.set.row(store, 1, 'Row 1');
+  });
+});
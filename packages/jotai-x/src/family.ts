@@ -0,0 +1,28 @@
+/**
+ * initialState 中的原子族：每个参数都有一个用 initialFactory(param) 初始化的原子。
+ */
+export type StoreFamily<P, V> = {
+  __family: true;
+  initialFactory: (param: P) => V;
+};
+
+/**
+ * Mark an `initialState` entry as a family of atoms, one per parameter, each
+ * initialized with `initialFactory(param)`. The generated hooks take the
+ * parameter as their first argument, e.g. `get.row(id)`, and the atoms are
+ * cached separately for each store.
+ */
+export const family = <P, V>(
+  initialFactory: (param: P) => V
+): StoreFamily<P, V> => ({ __family: true, initialFactory });
+
+/**
+ * 用于判断 initialState 中的值是否是原子族。
+ */
+export const isFamily = (
+  possibleFamily: unknown
+): possibleFamily is StoreFamily<unknown, unknown> =>
+  !!possibleFamily &&
+  typeof possibleFamily === 'object' &&
+  '__family' in possibleFamily &&
+  possibleFamily.__family === true;
@@ -5,4 +5,18 @@
 export * from './atomWithFn';
 export * from './createAtomProvider';
 export * from './createAtomStore';
+export * from './createStoreHistory';
+export * from './dehydrateStore';
+export * from './family';
+export * from './lazy';
+export * from './produceStore';
+export * from './resetStore';
+export * from './subscribeStore';
+export * from './transactStore';
+export * from './useBroadcastStore';
 export * from './useHydrateStore';
+export * from './useInheritStore';
+export * from './usePersistStore';
+export * from './useReduxDevtools';
+export * from './useUrlSyncStore';
+export * from './validateStore';
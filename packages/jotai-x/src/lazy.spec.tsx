@@ -0,0 +1,126 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+import { lazy } from './lazy';
+
+describe('lazy', () => {
+  const initialFactory = jest.fn((props: { owner?: unknown }) => [
+    `${props.owner ?? 'nobody'}'s first item`,
+  ]);
+
+  const { listStore, useListStore, ListProvider } = createAtomStore(
+    {
+      owner: 'John',
+      items: lazy(initialFactory),
+      format: lazy(() => (item: string) => item.toUpperCase()),
+    },
+    { name: 'list' as const }
+  );
+
+  beforeEach(() => initialFactory.mockClear());
+
+  const Items = ({ label }: { label: string }) => {
+    const items = useListStore().get.items();
+    const format = useListStore().get.format();
+
+    return (
+      <>
+        <div>
+          {label}: {items.map(format).join(', ')}
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            // Mutate the initial value in place
+            items.push('mutated');
+          }}
+        >
+          mutate {label}
+        </button>
+      </>
+    );
+  };
+
+  it('creates the initial value once for each Provider', () => {
+    const { getByText, rerender } = render(
+      <>
+        <ListProvider>
+          <Items label="a" />
+        </ListProvider>
+        <ListProvider owner="Jane">
+          <Items label="b" />
+        </ListProvider>
+      </>
+    );
+
+    expect(getByText("a: NOBODY'S FIRST ITEM")).toBeInTheDocument();
+    expect(getByText("b: JANE'S FIRST ITEM")).toBeInTheDocument();
+
+    act(() => getByText('mutate a').click());
+    rerender(
+      <>
+        <ListProvider>
+          <Items label="a" />
+        </ListProvider>
+        <ListProvider owner="Jane">
+          <Items label="b" />
+        </ListProvider>
+      </>
+    );
+
+    expect(getByText("a: NOBODY'S FIRST ITEM, MUTATED")).toBeInTheDocument();
+    expect(getByText("b: JANE'S FIRST ITEM")).toBeInTheDocument();
+    expect(initialFactory).toHaveBeenCalledTimes(2);
+  });
+
+  it('creates the initial value once for each vanilla store', () => {
+    const store = createStore();
+    const otherStore = createStore();
+
+    expect(listStore.get.items(store)).toEqual(["nobody's first item"]);
+    expect(listStore.get.items(store)).toBe(listStore.get.items(store));
+    expect(listStore.get.items(otherStore)).not.toBe(
+      listStore.get.items(store)
+    );
+    expect(initialFactory).toHaveBeenCalledTimes(2);
+  });
+
+  it('stores functions and resets to the initial value of the store', () => {
+    const store = createStore();
+    const initialItems = listStore.get.items(store);
+
+    listStore.set.format(store, (item) => item);
+    listStore.set.items(store, ['other']);
+    expect(listStore.get.format(store)('a')).toBe('a');
+
+    listStore.reset(store);
+
+    expect(listStore.get.items(store)).toEqual(initialItems);
+    expect(listStore.get.format(store)('a')).toBe('A');
+  });
+
+  it('creates a new initial value on reset', () => {
+    const { listStore: numberListStore } = createAtomStore(
+      { list: lazy(() => [] as number[]) },
+      { name: 'list' as const }
+    );
+    const store = createStore();
+
+    numberListStore.get.list(store).push(1);
+    numberListStore.set.list(store, [2]);
+    numberListStore.reset(store, ['list'], { baseline: 'initial' });
+
+    expect(numberListStore.get.list(store)).toEqual([]);
+  });
+
+  it('types the value', () => {
+    const store = createStore();
+
+    // @ts-expect-error items must be an array of strings
+    listStore.set.items(store, 'item');
+  });
+});
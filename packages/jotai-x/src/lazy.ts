@@ -0,0 +1,70 @@
+import { atom } from 'jotai';
+
+import type { JotaiStore, SimpleWritableAtom } from './createAtomStore';
+import type { Atom } from 'jotai/vanilla';
+
+/**
+ * 传给 initialFactory 的 Provider 属性（不包括 children 和 store），没有 Provider 时为空对象。
+ */
+export type LazyProps = Record<string, unknown>;
+
+/**
+ * initialState 中的延迟初始值：每个存储实例调用一次 initialFactory(props)。
+ */
+export type StoreLazy<V> = {
+  __lazy: true;
+  initialFactory: (props: LazyProps) => V;
+};
+
+/**
+ * Mark an `initialState` entry as a lazy initial value, computed by
+ * `initialFactory(props)` once per store instead of once per
+ * `createAtomStore` call, so object and array defaults are never shared
+ * between Providers. `props` are the props of the Provider that created the
+ * store, or `{}` outside of a Provider.
+ */
+export const lazy = <V>(
+  initialFactory: (props: LazyProps) => V
+): StoreLazy<V> => ({ __lazy: true, initialFactory });
+
+/**
+ * 用于判断 initialState 中的值是否是延迟初始值。
+ */
+export const isLazy = (
+  possibleLazy: unknown
+): possibleLazy is StoreLazy<unknown> =>
+  !!possibleLazy &&
+  typeof possibleLazy === 'object' &&
+  '__lazy' in possibleLazy &&
+  possibleLazy.__lazy === true;
+
+/**
+ * Create an atom initialized with `initialFactory(props)` the first time it is
+ * read in each store, where `props` is the value of `propsAtom`. Like
+ * `atomWithFn`, functions can be stored as values. `getInitialValue(store)`
+ * calls `initialFactory` again, so resets never reuse a mutated value.
+ */
+export const atomWithLazy = <V>(
+  initialFactory: (props: LazyProps) => V,
+  propsAtom: Atom<LazyProps>
+) => {
+  // 没有依赖变化时，派生原子在每个存储中只计算一次；值包装在对象中，以便存储函数
+  const initialAtom = atom((get) => ({
+    value: initialFactory(get(propsAtom)),
+  }));
+  initialAtom.debugPrivate = true;
+
+  // 写入的值，null 表示还没有写入
+  const writtenAtom = atom<{ value: V } | null>(null);
+  writtenAtom.debugPrivate = true;
+
+  const lazyAtom: SimpleWritableAtom<V> = atom(
+    (get) => (get(writtenAtom) ?? get(initialAtom)).value,
+    (_get, set, value: V) => set(writtenAtom, { value })
+  );
+
+  const getInitialValue = (store: JotaiStore) =>
+    initialFactory(store.get(propsAtom));
+
+  return { atom: lazyAtom, getInitialValue };
+};
@@ -0,0 +1,110 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+
+import type { Producer } from './produceStore';
+
+describe('produceStore', () => {
+  // A minimal producer with the same signature as Immer's `produce`
+  const produce: Producer = (base, recipe) => {
+    const draft =
+      typeof base === 'object' ? JSON.parse(JSON.stringify(base)) : base;
+    const result = recipe(draft);
+
+    return result === undefined ? draft : result;
+  };
+
+  type MyDocumentStoreValue = {
+    document: { title: string; blocks: { text: string }[] };
+    onChange: (title: string) => void;
+  };
+
+  const initialDocumentStoreValue: MyDocumentStoreValue = {
+    document: { title: 'Untitled', blocks: [{ text: 'Hello' }] },
+    onChange: () => {},
+  };
+
+  const { documentStore, useDocumentStore, DocumentProvider } = createAtomStore(
+    initialDocumentStoreValue,
+    {
+      name: 'document' as const,
+      produce,
+    }
+  );
+
+  it('updates a value with a draft', () => {
+    const Editor = () => {
+      const document = useDocumentStore().get.document();
+      const produceDocument = useDocumentStore().set.document.produce();
+
+      return (
+        <button
+          type="button"
+          onClick={() =>
+            produceDocument((draft) => {
+              draft.blocks[0].text = 'Hello world';
+            })
+          }
+        >
+          {document.blocks[0].text}
+        </button>
+      );
+    };
+
+    const { getByText } = render(
+      <DocumentProvider>
+        <Editor />
+      </DocumentProvider>
+    );
+
+    act(() => getByText('Hello').click());
+
+    expect(getByText('Hello world')).toBeInTheDocument();
+    expect(initialDocumentStoreValue.document.blocks[0].text).toBe('Hello');
+  });
+
+  it('updates a value with a draft outside of React', () => {
+    const store = createStore();
+
+    documentStore.set.document.produce(store, (draft) => {
+      draft.title = 'Draft';
+    });
+    expect(documentStore.get.document(store).title).toBe('Draft');
+
+    documentStore.set.document.produce(store, (draft) => ({
+      ...draft,
+      blocks: [],
+    }));
+    expect(documentStore.get.document(store)).toEqual({
+      title: 'Draft',
+      blocks: [],
+    });
+  });
+
+  it('does not call function values as updaters', () => {
+    const store = createStore();
+    const onChange = jest.fn();
+
+    documentStore.set.onChange.produce(store, () => onChange);
+
+    expect(documentStore.get.onChange(store)).toBe(onChange);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('requires the produce option', () => {
+    const { userStore } = createAtomStore(
+      { user: { name: 'John' } },
+      { name: 'user' as const }
+    );
+
+    expect(() =>
+      userStore.set.user.produce(createStore(), (draft) => {
+        draft.name = 'Jane';
+      })
+    ).toThrow('Pass a `produce` option to createAtomStore');
+  });
+});
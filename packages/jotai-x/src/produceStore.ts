@@ -0,0 +1,32 @@
+import type { JotaiStore } from './createAtomStore';
+import type { WritableAtom } from 'jotai/vanilla';
+
+/**
+ * 草稿更新函数：修改草稿，或者返回一个新的值。
+ */
+export type ProduceRecipe<V> = (draft: V) => V | void;
+
+/**
+ * 根据草稿更新函数生成下一个值的函数，例如 Immer 的 produce 或 Mutative 的 create。
+ */
+export type Producer = (base: any, recipe: (draft: any) => any) => any;
+
+/**
+ * Update the value of a writable atom with a draft recipe, using `producer`
+ * (e.g. Immer's `produce` or Mutative's `create`) to create the next value.
+ */
+export const produceStore = <V>(
+  store: JotaiStore,
+  atomConfig: WritableAtom<V, [V], unknown>,
+  producer: Producer | undefined,
+  recipe: ProduceRecipe<V>
+) => {
+  if (!producer) {
+    throw new Error(
+      "Pass a `produce` option to createAtomStore (e.g. Immer's `produce`) to update values with drafts."
+    );
+  }
+
+  // 写入的是下一个值而不是更新函数，所以函数值（由 atomWithFn 包装）不会被当作更新函数调用
+  store.set(atomConfig, producer(store.get(atomConfig), recipe));
+};
@@ -0,0 +1,193 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { atom, createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+
+import type { JotaiStore } from './createAtomStore';
+
+describe('resetStore', () => {
+  type MyResetStoreValue = {
+    name: string;
+    age: number;
+  };
+
+  const initialResetStoreValue: MyResetStoreValue = {
+    name: 'John',
+    age: 42,
+  };
+
+  const { resetStore, useResetStore, ResetProvider } = createAtomStore(
+    initialResetStoreValue,
+    {
+      name: 'reset' as const,
+      extend: ({ age }) => ({
+        count: atom(0),
+        double: atom(
+          (get) => get(age) * 2,
+          (_get, set, value: number) => set(age, value / 2)
+        ),
+      }),
+    }
+  );
+
+  let jotaiStore: JotaiStore | undefined;
+
+  const Consumer = () => {
+    jotaiStore = useResetStore().store();
+
+    const [name, setName] = useResetStore().use.name();
+    const [age, setAge] = useResetStore().use.age();
+    const [count, setCount] = useResetStore().use.count();
+    const resetName = useResetStore().reset.name();
+    const resetNameToInitial = useResetStore().reset.name({
+      baseline: 'initial',
+    });
+    const resetAll = useResetStore().resetAll();
+
+    return (
+      <>
+        <div>
+          name: {name}, age: {age}, count: {count}
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setName('Jane');
+            setAge(1);
+            setCount(5);
+          }}
+        >
+          change
+        </button>
+        <button type="button" onClick={resetName}>
+          reset name
+        </button>
+        <button type="button" onClick={resetNameToInitial}>
+          reset name to initial
+        </button>
+        <button type="button" onClick={resetAll}>
+          reset all
+        </button>
+      </>
+    );
+  };
+
+  it('resets a key to the hydrated value', () => {
+    const { getByText } = render(
+      <ResetProvider initialValues={{ name: 'Hydrated' }}>
+        <Consumer />
+      </ResetProvider>
+    );
+
+    act(() => getByText('change').click());
+    act(() => getByText('reset name').click());
+    expect(getByText('name: Hydrated, age: 1, count: 5')).toBeInTheDocument();
+
+    act(() => getByText('reset name to initial').click());
+    expect(getByText('name: John, age: 1, count: 5')).toBeInTheDocument();
+  });
+
+  it('resets all keys, including extended primitive atoms', () => {
+    const { getByText } = render(
+      <ResetProvider age={10}>
+        <Consumer />
+      </ResetProvider>
+    );
+
+    act(() => getByText('change').click());
+    act(() => getByText('reset all').click());
+
+    expect(getByText('name: John, age: 10, count: 0')).toBeInTheDocument();
+  });
+
+  it('resets keys outside of React', () => {
+    const store = createStore();
+
+    resetStore.set.name(store, 'Jane');
+    resetStore.set.age(store, 1);
+    resetStore.set.count(store, 5);
+    resetStore.reset(store, ['name', 'count']);
+
+    expect(resetStore.getState(store)).toEqual({
+      name: 'John',
+      age: 1,
+      count: 0,
+      double: 2,
+    });
+  });
+
+  it('resets in place when resetKey changes', () => {
+    const { getByText, rerender } = render(
+      <ResetProvider name="Synced" resetKey={1}>
+        <Consumer />
+      </ResetProvider>
+    );
+
+    const initialJotaiStore = jotaiStore;
+
+    act(() => getByText('change').click());
+
+    rerender(
+      <ResetProvider name="Synced" resetKey={2}>
+        <Consumer />
+      </ResetProvider>
+    );
+
+    expect(getByText('name: Synced, age: 42, count: 0')).toBeInTheDocument();
+    expect(jotaiStore).toBe(initialJotaiStore);
+  });
+
+  it('does not shadow a key named all', () => {
+    const { useFiltersStore, FiltersProvider } = createAtomStore(
+      { all: false, query: '' },
+      { name: 'filters' as const }
+    );
+
+    const Filters = () => {
+      const [all, setAll] = useFiltersStore().use.all();
+      const [query, setQuery] = useFiltersStore().use.query();
+      const resetAllKey = useFiltersStore().reset.all();
+      const resetAll = useFiltersStore().resetAll();
+
+      return (
+        <>
+          <div>
+            all: {String(all)}, query: {query}
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              setAll(true);
+              setQuery('shoes');
+            }}
+          >
+            change
+          </button>
+          <button type="button" onClick={resetAllKey}>
+            reset all key
+          </button>
+          <button type="button" onClick={resetAll}>
+            reset all
+          </button>
+        </>
+      );
+    };
+
+    const { getByText } = render(
+      <FiltersProvider>
+        <Filters />
+      </FiltersProvider>
+    );
+
+    act(() => getByText('change').click());
+    act(() => getByText('reset all key').click());
+    expect(getByText('all: false, query: shoes')).toBeInTheDocument();
+
+    act(() => getByText('change').click());
+    act(() => getByText('reset all').click());
+    expect(getByText('all: false, query:')).toBeInTheDocument();
+  });
+});
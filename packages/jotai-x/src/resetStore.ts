@@ -0,0 +1,84 @@
+import type { JotaiStore } from './createAtomStore';
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+
+/**
+ * 重置时恢复的值：'initial' 表示 initialState 中的值，'hydrated' 表示 Provider 初始化（或同步）的值。
+ */
+export type ResetBaseline = 'initial' | 'hydrated';
+
+export type ResetOptions = {
+  /**
+   * Defaults to `'hydrated'`. Keys that were not hydrated by a Provider are
+   * reset to their `initialState` value.
+   */
+  baseline?: ResetBaseline;
+};
+
+/**
+ * 可以重置的原子及其在 initialState 中的值；延迟初始值的原子每次重置时调用 getInitialValue 创建新的值。
+ */
+export type ResettableAtomRecord = Record<
+  string,
+  {
+    atom: WritableAtom<any, [any], any>;
+    initialValue: unknown;
+    getInitialValue?: (store: JotaiStore) => unknown;
+  }
+>;
+
+/**
+ * 每个存储中由 Provider 初始化或同步的值。
+ */
+const hydratedValues = new WeakMap<JotaiStore, Map<Atom<unknown>, unknown>>();
+
+/**
+ * Record the values a Provider hydrated or synced into a store, used as the
+ * `'hydrated'` reset baseline. Like `useHydrateAtoms`, only the first hydrated
+ * value of each atom is kept unless `overwrite` is set.
+ */
+export const setHydratedValues = (
+  store: JotaiStore,
+  values: Iterable<readonly [Atom<unknown>, unknown]>,
+  { overwrite = false }: { overwrite?: boolean } = {}
+) => {
+  let storeHydratedValues = hydratedValues.get(store);
+
+  if (!storeHydratedValues) {
+    storeHydratedValues = new Map();
+    hydratedValues.set(store, storeHydratedValues);
+  }
+
+  for (const [atomConfig, value] of values) {
+    if (overwrite || !storeHydratedValues.has(atomConfig)) {
+      storeHydratedValues.set(atomConfig, value);
+    }
+  }
+};
+
+/**
+ * Reset the given keys (all keys by default) of a store in place.
+ */
+export const resetStore = (
+  store: JotaiStore,
+  atoms: ResettableAtomRecord,
+  keys: string[] = Object.keys(atoms),
+  { baseline = 'hydrated' }: ResetOptions = {}
+) => {
+  const storeHydratedValues =
+    baseline === 'hydrated' ? hydratedValues.get(store) : undefined;
+
+  for (const key of keys) {
+    if (!(key in atoms)) continue;
+
+    const { atom: atomConfig, initialValue, getInitialValue } = atoms[key];
+
+    if (storeHydratedValues?.has(atomConfig)) {
+      store.set(atomConfig, storeHydratedValues.get(atomConfig));
+    } else {
+      store.set(
+        atomConfig,
+        getInitialValue ? getInitialValue(store) : initialValue
+      );
+    }
+  }
+};
@@ -0,0 +1,109 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { atom, createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+
+import type { JotaiStore } from './createAtomStore';
+
+describe('subscribeStore', () => {
+  type MyCounterStoreValue = {
+    name: string;
+    count: number;
+  };
+
+  const initialCounterStoreValue: MyCounterStoreValue = {
+    name: 'counter',
+    count: 0,
+  };
+
+  const { counterStore, useCounterStore, CounterProvider } = createAtomStore(
+    initialCounterStoreValue,
+    {
+      name: 'counter' as const,
+      extend: ({ count }) => ({
+        double: atom((get) => get(count) * 2),
+      }),
+    }
+  );
+
+  it('calls the listener with the next and previous values', () => {
+    const store = createStore();
+    const listener = jest.fn();
+
+    const unsubscribe = counterStore.subscribe(store, 'count', listener);
+    counterStore.set.count(store, 1);
+    unsubscribe();
+    counterStore.set.count(store, 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 0, store);
+  });
+
+  it('subscribes to several keys at once', () => {
+    const store = createStore();
+    const listener = jest.fn();
+
+    counterStore.subscribe(store, ['name', 'count'], listener);
+    counterStore.set.name(store, 'renamed');
+
+    expect(listener).toHaveBeenCalledWith(
+      { name: 'renamed', count: 0 },
+      { name: 'counter', count: 0 },
+      store
+    );
+  });
+
+  it('fires immediately and works for extended atoms', () => {
+    const store = createStore();
+    const listener = jest.fn();
+
+    counterStore.subscribe(store, 'double', listener, {
+      fireImmediately: true,
+    });
+    expect(listener).toHaveBeenLastCalledWith(0, 0, store);
+
+    counterStore.set.count(store, 2);
+    expect(listener).toHaveBeenLastCalledWith(4, 0, store);
+  });
+
+  it('cleans up the effect when the provider unmounts', () => {
+    const callback = jest.fn();
+
+    const Effect = () => {
+      useCounterStore().effect('count', callback);
+      const setCount = useCounterStore().set.count();
+
+      return (
+        <button type="button" onClick={() => setCount(1)}>
+          increment
+        </button>
+      );
+    };
+
+    let jotaiStore: JotaiStore | undefined;
+
+    const Store = () => {
+      jotaiStore = useCounterStore().store();
+
+      return null;
+    };
+
+    const { getByText, unmount } = render(
+      <CounterProvider>
+        <Effect />
+        <Store />
+      </CounterProvider>
+    );
+
+    act(() => getByText('increment').click());
+    expect(callback).toHaveBeenCalledWith(1, 0, jotaiStore);
+
+    unmount();
+    counterStore.set.count(jotaiStore, 2);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
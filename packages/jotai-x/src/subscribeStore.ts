@@ -0,0 +1,77 @@
+import type { JotaiStore } from './createAtomStore';
+import type { Atom } from 'jotai/vanilla';
+
+export type SubscribeOptions = {
+  /**
+   * Call the listener immediately with the current value as both the next
+   * and the previous value.
+   */
+  fireImmediately?: boolean;
+};
+
+/**
+ * 订阅的监听函数，接收新值、旧值和存储。
+ */
+export type StoreListener<V> = (
+  value: V,
+  prevValue: V,
+  store: JotaiStore
+) => void;
+
+const isAtom = (possibleAtom: unknown): possibleAtom is Atom<unknown> =>
+  !!possibleAtom &&
+  typeof possibleAtom === 'object' &&
+  'read' in possibleAtom &&
+  typeof possibleAtom.read === 'function';
+
+/**
+ * Subscribe to an atom, or to a record of atoms whose values are passed to the
+ * listener as an object. Returns a function that unsubscribes.
+ */
+export const subscribeStore = (
+  store: JotaiStore,
+  target: Atom<unknown> | Record<string, Atom<unknown>>,
+  listener: StoreListener<any>,
+  { fireImmediately = false }: SubscribeOptions = {}
+) => {
+  const entries = isAtom(target) ? [] : Object.entries(target);
+
+  const getValue = () =>
+    isAtom(target)
+      ? store.get(target)
+      : Object.fromEntries(
+          entries.map(([key, atomConfig]) => [key, store.get(atomConfig)])
+        );
+
+  // 订阅多个原子时，只在至少一个值变化时调用监听函数
+  const isSameValue = (value: any, prevValue: any) =>
+    isAtom(target)
+      ? Object.is(value, prevValue)
+      : entries.every(([key]) => Object.is(value[key], prevValue[key]));
+
+  let prevValue = getValue();
+
+  if (fireImmediately) {
+    listener(prevValue, prevValue, store);
+  }
+
+  const watchedAtoms = isAtom(target)
+    ? [target]
+    : entries.map(([, atomConfig]) => atomConfig);
+
+  const unsubscribes = watchedAtoms.map((atomConfig) =>
+    store.sub(atomConfig, () => {
+      const value = getValue();
+
+      if (isSameValue(value, prevValue)) return;
+
+      const previous = prevValue;
+      prevValue = value;
+      listener(value, previous, store);
+    })
+  );
+
+  return () => {
+    for (const unsubscribe of unsubscribes) unsubscribe();
+  };
+};
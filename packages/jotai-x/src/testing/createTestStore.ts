@@ -0,0 +1,123 @@
+import React from 'react';
+
+import { mountAtomStore } from '../createAtomProvider';
+import { getProviderIndex, getStoreIndex } from '../createAtomStore';
+
+import type { JotaiStore } from '../createAtomStore';
+
+/**
+ * 与 createAtomStore 返回的对象兼容的类型。
+ */
+export type AnyAtomStoreApi = { name: string };
+
+/**
+ * createAtomStore 返回的对象中的 <name>Store。
+ */
+type StoreApiOf<S extends AnyAtomStoreApi> = S[(S['name'] extends ''
+  ? 'store'
+  : `${S['name']}Store`) &
+  keyof S];
+
+/**
+ * 测试存储的初始值，与 <name>Store.createStore 的参数相同。
+ */
+export type TestStoreValues<S extends AnyAtomStoreApi> = StoreApiOf<S> extends {
+  createStore: (initialValues?: infer V) => JotaiStore;
+}
+  ? V
+  : never;
+
+/**
+ * 测试存储对应的 <name>Store 和 Provider。
+ */
+type TestStoreEntry = {
+  storeApi: {
+    name: string;
+    getState: (store: JotaiStore) => Record<string, unknown>;
+    createStore: (initialValues?: object) => JotaiStore;
+  };
+  Provider: React.FC<any>;
+};
+
+const testStores = new WeakMap<JotaiStore, TestStoreEntry>();
+
+/**
+ * 从 createAtomStore 返回的对象中找到 <name>Store 和 Provider。
+ */
+const getTestStoreEntry = (atomStoreApi: AnyAtomStoreApi): TestStoreEntry => {
+  const { name } = atomStoreApi;
+  const entry = {
+    storeApi: (atomStoreApi as any)[getStoreIndex(name)],
+    Provider: (atomStoreApi as any)[getProviderIndex(name)],
+  };
+
+  if (!entry.storeApi || !entry.Provider) {
+    throw new Error(
+      `Tried to create a test store for jotai store '${name}' that was not created by createAtomStore.`
+    );
+  }
+
+  return entry;
+};
+
+/**
+ * Returns the store API and Provider of a store created by `createTestStore`.
+ */
+export const getTestStore = (store: JotaiStore): TestStoreEntry => {
+  const entry = testStores.get(store);
+
+  if (!entry) {
+    throw new Error(
+      'Expected a store created by createTestStore or mockStore.'
+    );
+  }
+
+  return entry;
+};
+
+/**
+ * Create a store for the given `createAtomStore` result, initialized with
+ * `values`. The store can be passed to `renderWithStore`, `getStoreState` and
+ * the `toHaveStoreValue` matcher.
+ */
+export const createTestStore = <S extends AnyAtomStoreApi>(
+  atomStoreApi: S,
+  values?: TestStoreValues<S>
+): JotaiStore => {
+  const entry = getTestStoreEntry(atomStoreApi);
+  const store = entry.storeApi.createStore(values as object | undefined);
+
+  testStores.set(store, entry);
+
+  return store;
+};
+
+/**
+ * Returns the values of all atoms of a test store, including extended atoms.
+ */
+export const getStoreState = (store: JotaiStore) =>
+  getTestStore(store).storeApi.getState(store);
+
+/**
+ * Create a test store and register it as the innermost mounted provider for
+ * `scope`, so that lookups outside of React like `<name>Store.get.<key>(scope)`
+ * resolve to it. Components resolve it when rendered inside `wrapper`, e.g.
+ * `render(ui, { wrapper })`. Call `restore` to unregister the store.
+ */
+export const mockStore = <S extends AnyAtomStoreApi>(
+  atomStoreApi: S,
+  { scope, values }: { scope?: string; values?: TestStoreValues<S> } = {}
+) => {
+  const store = createTestStore(atomStoreApi, values);
+  const { Provider } = getTestStore(store);
+
+  // 在 React 中，组件通过 Provider 查找存储，而不是通过已挂载的 Provider 注册表
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(Provider, { store, scope }, children);
+
+  return {
+    store,
+    wrapper,
+    restore: mountAtomStore(atomStoreApi.name, store, scope),
+  };
+};
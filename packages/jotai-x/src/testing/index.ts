@@ -0,0 +1,3 @@
+export * from './createTestStore';
+export * from './renderWithStore';
+export * from './storeMatchers';
@@ -0,0 +1,121 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import {
+  createTestStore,
+  getStoreState,
+  mockStore,
+  renderWithStore,
+  storeMatchers,
+} from '.';
+import { createAtomStore } from '../createAtomStore';
+
+expect.extend(storeMatchers);
+
+describe('jotai-x/testing', () => {
+  type MyUserStoreValue = {
+    name: string;
+    age: number;
+  };
+
+  const initialUserStoreValue: MyUserStoreValue = {
+    name: 'John',
+    age: 42,
+  };
+
+  const userApi = createAtomStore(initialUserStoreValue, {
+    name: 'user' as const,
+  });
+
+  const { userStore, useUserStore } = userApi;
+
+  const User = ({ scope }: { scope?: string }) => {
+    const name = useUserStore(scope).get.name();
+    const [age, setAge] = useUserStore(scope).use.age();
+
+    return (
+      <>
+        <div>
+          {name} ({age})
+        </div>
+        <button type="button" onClick={() => setAge(age + 1)}>
+          birthday
+        </button>
+      </>
+    );
+  };
+
+  it('renders with a test store', () => {
+    const store = createTestStore(userApi, { name: 'Jane' });
+    const { getByText } = renderWithStore(<User />, { store });
+
+    expect(getByText('Jane (42)')).toBeInTheDocument();
+
+    act(() => getByText('birthday').click());
+
+    expect(store).toHaveStoreValue('age', 43);
+    expect(store).not.toHaveStoreValue('name', 'John');
+    expect(getStoreState(store)).toEqual({ name: 'Jane', age: 43 });
+  });
+
+  it('renders at a scope with initial values', () => {
+    const store = createTestStore(userApi);
+    const { getByText, rerender } = renderWithStore(<User scope="profile" />, {
+      store,
+      scope: 'profile',
+      initialValues: { age: 7 },
+    });
+
+    expect(getByText('John (7)')).toBeInTheDocument();
+
+    rerender(<User scope="profile" />);
+    act(() => getByText('birthday').click());
+
+    expect(getByText('John (8)')).toBeInTheDocument();
+  });
+
+  it('mocks a store at a scope', () => {
+    const { store, restore } = mockStore(userApi, {
+      scope: 'mocked',
+      values: { name: 'Mocked' },
+    });
+
+    expect(userStore.get.name('mocked')).toBe('Mocked');
+
+    userStore.set.age('mocked', 1);
+    expect(store).toHaveStoreValue('age', 1);
+
+    restore();
+    expect(userStore.get.name('mocked')).toBe('John');
+  });
+
+  it('mocks a store at a scope for components', () => {
+    const { wrapper, restore } = mockStore(userApi, {
+      scope: 'mocked',
+      values: { name: 'Mocked' },
+    });
+
+    const { getByText } = render(<User scope="mocked" />, { wrapper });
+
+    expect(getByText('Mocked (42)')).toBeInTheDocument();
+    expect(userStore.get.name('mocked')).toBe('Mocked');
+
+    restore();
+  });
+
+  it('preserves the typing of the values', () => {
+    // @ts-expect-error age must be a number
+    createTestStore(userApi, { age: 'old' });
+
+    // @ts-expect-error role is not a user store key
+    mockStore(userApi, { values: { role: 'admin' } }).restore();
+  });
+
+  it('rejects stores that were not created for testing', () => {
+    expect(() => getStoreState(userStore.createStore())).toThrow(
+      'Expected a store created by createTestStore or mockStore.'
+    );
+  });
+});
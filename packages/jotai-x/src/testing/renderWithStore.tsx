@@ -0,0 +1,39 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { getTestStore } from './createTestStore';
+
+import type { JotaiStore } from '../createAtomStore';
+import type { RenderOptions, RenderResult } from '@testing-library/react';
+
+export type RenderWithStoreOptions = Omit<RenderOptions, 'wrapper'> & {
+  /**
+   * A store created by `createTestStore` or `mockStore`.
+   */
+  store: JotaiStore;
+  scope?: string;
+  initialValues?: Record<string, unknown>;
+};
+
+export interface RenderWithStoreResult extends RenderResult {
+  store: JotaiStore;
+}
+
+/**
+ * Render `ui` inside the Provider of a test store. The Provider is kept when
+ * calling `rerender`.
+ */
+export const renderWithStore = (
+  ui: React.ReactElement,
+  { store, scope, initialValues, ...options }: RenderWithStoreOptions
+): RenderWithStoreResult => {
+  const { Provider } = getTestStore(store);
+
+  const Wrapper = ({ children }: { children: React.ReactNode }) => (
+    <Provider store={store} scope={scope} initialValues={initialValues}>
+      {children}
+    </Provider>
+  );
+
+  return { store, ...render(ui, { wrapper: Wrapper, ...options }) };
+};
@@ -0,0 +1,49 @@
+import { getStoreState } from './createTestStore';
+
+import type { JotaiStore } from '../createAtomStore';
+
+/**
+ * 匹配器的上下文中用到的部分，与 Jest 和 Vitest 兼容。
+ */
+type MatcherContext = {
+  isNot?: boolean;
+  equals: (a: unknown, b: unknown) => boolean;
+  utils: {
+    printExpected: (value: unknown) => string;
+    printReceived: (value: unknown) => string;
+  };
+};
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      toHaveStoreValue(key: string, value: unknown): R;
+    }
+  }
+}
+
+/**
+ * Matchers for test stores, to register with `expect.extend(storeMatchers)`.
+ */
+export const storeMatchers = {
+  toHaveStoreValue(
+    this: MatcherContext,
+    store: JotaiStore,
+    key: string,
+    value: unknown
+  ) {
+    const state = getStoreState(store);
+    const received = state[key];
+    const pass = key in state && this.equals(received, value);
+
+    return {
+      pass,
+      message: () =>
+        `expected store value '${key}'${
+          this.isNot ? ' not' : ''
+        } to equal ${this.utils.printExpected(
+          value
+        )}, received ${this.utils.printReceived(received)}`,
+    };
+  },
+};
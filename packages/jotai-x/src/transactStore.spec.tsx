@@ -0,0 +1,180 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render, renderHook } from '@testing-library/react';
+import { atom, createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+import { family } from './family';
+
+describe('transactStore', () => {
+  type MyEditorStoreValue = {
+    document: string;
+    selection: number;
+  };
+
+  const initialEditorStoreValue: MyEditorStoreValue = {
+    document: 'hello',
+    selection: 5,
+  };
+
+  const { editorStore, useEditorStore, EditorProvider } = createAtomStore(
+    initialEditorStoreValue,
+    {
+      name: 'editor' as const,
+      extend: ({ document, selection }) => ({
+        isSelectionValid: atom((get) => get(selection) <= get(document).length),
+      }),
+    }
+  );
+
+  it('writes many keys at once', () => {
+    const store = createStore();
+    const listener = jest.fn();
+
+    editorStore.subscribe(store, 'isSelectionValid', listener);
+    editorStore.set.document(store, 'hi');
+    expect(listener).toHaveBeenLastCalledWith(false, true, store);
+
+    editorStore.set.document(store, 'hello');
+    listener.mockClear();
+
+    editorStore.setMany(store, { document: 'hi', selection: 2 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(editorStore.getState(store)).toEqual({
+      document: 'hi',
+      selection: 2,
+      isSelectionValid: true,
+    });
+  });
+
+  it('rolls back when the transaction throws', () => {
+    const store = createStore();
+
+    expect(() =>
+      editorStore.transaction(store, ({ set, atoms }) => {
+        set(atoms.document, 'changed');
+        set(atoms.selection, 0);
+        throw new Error('Invalid edit');
+      })
+    ).toThrow('Invalid edit');
+
+    expect(editorStore.get.document(store)).toBe('hello');
+    expect(editorStore.get.selection(store)).toBe(5);
+
+    const length = editorStore.transaction(store, ({ get, set, atoms }) => {
+      set(atoms.document, 'changed');
+
+      return get(atoms.document).length;
+    });
+
+    expect(length).toBe(7);
+    expect(editorStore.get.document(store)).toBe('changed');
+  });
+
+  it('rolls back the atoms of families', () => {
+    const { counterStore } = createAtomStore(
+      { count: 0, row: family((id: number) => id) },
+      { name: 'counter' as const }
+    );
+    const store = createStore();
+
+    counterStore.get.row(store, 1);
+
+    expect(() =>
+      counterStore.transaction(store, ({ set, atoms }) => {
+        set(atoms.count, 1);
+        counterStore.set.row(store, 1, 99);
+        counterStore.set.row(store, 2, 99);
+        throw new Error('Invalid edit');
+      })
+    ).toThrow('Invalid edit');
+
+    expect(counterStore.get.count(store)).toBe(0);
+    expect(counterStore.get.row(store, 1)).toBe(1);
+    expect(counterStore.get.row(store, 2)).toBe(2);
+  });
+
+  it('renders once for many keys', () => {
+    const renders: string[] = [];
+
+    const Editor = () => {
+      const document = useEditorStore().get.document();
+      const selection = useEditorStore().get.selection();
+      const setMany = useEditorStore().setMany();
+      renders.push(`${document}:${selection}`);
+
+      return (
+        <button
+          type="button"
+          onClick={() => setMany({ document: 'hi', selection: 1 })}
+        >
+          edit
+        </button>
+      );
+    };
+
+    const { getByText } = render(
+      <EditorProvider>
+        <Editor />
+      </EditorProvider>
+    );
+
+    renders.length = 0;
+    act(() => getByText('edit').click());
+
+    expect(renders).toEqual(['hi:1']);
+  });
+
+  it('does not shadow a key named many', () => {
+    const { useListStore } = createAtomStore(
+      { many: false, count: 0 },
+      { name: 'list' as const }
+    );
+    const store = createStore();
+
+    const { result } = renderHook(() => ({
+      setManyKey: useListStore({ store }).set.many(),
+      setMany: useListStore({ store }).setMany(),
+      many: useListStore({ store }).get.many(),
+      count: useListStore({ store }).get.count(),
+    }));
+
+    act(() => result.current.setManyKey(true));
+    expect(result.current.many).toBe(true);
+
+    act(() => result.current.setMany({ many: false, count: 2 }));
+    expect(result.current).toMatchObject({ many: false, count: 2 });
+  });
+
+  it('runs transactions against the store of the provider', () => {
+    let store: ReturnType<typeof createStore> | undefined;
+
+    const Editor = () => {
+      store = useEditorStore().store();
+      const transaction = useEditorStore().transaction();
+
+      return (
+        <button
+          type="button"
+          onClick={() =>
+            transaction(({ set, atoms }) => set(atoms.selection, 0))
+          }
+        >
+          select start
+        </button>
+      );
+    };
+
+    const { getByText } = render(
+      <EditorProvider>
+        <Editor />
+      </EditorProvider>
+    );
+
+    act(() => getByText('select start').click());
+
+    expect(editorStore.get.selection(store)).toBe(0);
+  });
+});
@@ -0,0 +1,39 @@
+import { atom } from 'jotai/vanilla';
+
+import type { JotaiStore } from './createAtomStore';
+import type { Getter, Setter, WritableAtom } from 'jotai/vanilla';
+
+/**
+ * 在一次写入中执行函数：所有的 set 完成之后才通知订阅者，因此不会出现中间状态的渲染。
+ */
+const transactionAtom = atom(
+  null,
+  (get, set, fn: (get: Getter, set: Setter) => unknown) => fn(get, set)
+);
+transactionAtom.debugPrivate = true;
+
+/**
+ * Run `fn` as a single write, so that subscribers and derived atoms only see
+ * the final state. If `fn` throws, the given atoms are restored to their
+ * previous values and the error is rethrown. `fn` must be synchronous.
+ */
+export const transactStore = <R>(
+  store: JotaiStore,
+  rollbackAtoms: WritableAtom<any, [any], any>[],
+  fn: (get: Getter, set: Setter) => R
+): R =>
+  store.set(transactionAtom, (get, set) => {
+    const prevValues = rollbackAtoms.map(
+      (atomConfig) => [atomConfig, get(atomConfig)] as const
+    );
+
+    try {
+      return fn(get, set);
+    } catch (error) {
+      for (const [atomConfig, prevValue] of prevValues) {
+        set(atomConfig, prevValue);
+      }
+
+      throw error;
+    }
+  }) as R;
@@ -0,0 +1,173 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { createAtomStore } from './createAtomStore';
+import {
+  createMemoryBroadcast,
+  getBroadcastChannelName,
+} from './useBroadcastStore';
+
+import type { BroadcastTransport } from './useBroadcastStore';
+
+describe('useBroadcastStore', () => {
+  type MyAuthStoreValue = {
+    token: string;
+    theme: string;
+    onLogout: () => void;
+  };
+
+  const initialAuthStoreValue: MyAuthStoreValue = {
+    token: 'anonymous',
+    theme: 'light',
+    onLogout: () => {},
+  };
+
+  // Counts the messages posted by all transports of a memory broadcast
+  const createSpiedBroadcast = () => {
+    const createTransport = createMemoryBroadcast();
+    const messages: { channelName: string; message: unknown }[] = [];
+
+    const transport = (channelName: string): BroadcastTransport => {
+      const memoryTransport = createTransport(channelName);
+
+      return {
+        ...memoryTransport,
+        postMessage: (message) => {
+          messages.push({ channelName, message });
+          memoryTransport.postMessage(message);
+        },
+      };
+    };
+
+    return { transport, messages };
+  };
+
+  it('syncs broadcast keys between Providers without echo', () => {
+    const { transport, messages } = createSpiedBroadcast();
+    const { useAuthStore, AuthProvider } = createAtomStore(
+      initialAuthStoreValue,
+      {
+        name: 'auth' as const,
+        broadcast: { keys: ['token', 'onLogout'], transport },
+      }
+    );
+
+    const Tab = ({ label }: { label: string }) => {
+      const [token, setToken] = useAuthStore().use.token();
+      const [theme, setTheme] = useAuthStore().use.theme();
+
+      return (
+        <>
+          <div>
+            {label}: {token} {theme}
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              setToken(`${label}-token`);
+              setTheme('dark');
+            }}
+          >
+            login {label}
+          </button>
+        </>
+      );
+    };
+
+    const { getByText } = render(
+      <>
+        <AuthProvider>
+          <Tab label="a" />
+        </AuthProvider>
+        <AuthProvider>
+          <Tab label="b" />
+        </AuthProvider>
+      </>
+    );
+
+    act(() => getByText('login a').click());
+
+    expect(getByText('a: a-token dark')).toBeInTheDocument();
+    expect(getByText('b: a-token light')).toBeInTheDocument();
+    expect(messages).toEqual([
+      { channelName: 'auth', message: { key: 'token', value: 'a-token' } },
+    ]);
+  });
+
+  it('keys channels by scope and skips functions', () => {
+    const { transport, messages } = createSpiedBroadcast();
+    const { authStore, useAuthStore, AuthProvider } = createAtomStore(
+      initialAuthStoreValue,
+      {
+        name: 'auth' as const,
+        broadcast: { keys: ['token', 'onLogout'], transport },
+      }
+    );
+
+    const Login = () => {
+      const setToken = useAuthStore().set.token();
+      const setOnLogout = useAuthStore().set.onLogout();
+
+      return (
+        <button
+          type="button"
+          onClick={() => {
+            setToken('admin-token');
+            setOnLogout(() => {});
+          }}
+        >
+          login
+        </button>
+      );
+    };
+
+    const { getByText } = render(
+      <>
+        <AuthProvider scope="admin">
+          <Login />
+        </AuthProvider>
+        <AuthProvider scope="user">
+          <div />
+        </AuthProvider>
+      </>
+    );
+
+    act(() => getByText('login').click());
+
+    expect(authStore.get.token('user')).toBe('anonymous');
+    expect(messages).toEqual([
+      {
+        channelName: 'auth:admin',
+        message: { key: 'token', value: 'admin-token' },
+      },
+    ]);
+    expect(getBroadcastChannelName('auth', { channel: 'app' }, 'admin')).toBe(
+      'app:admin'
+    );
+  });
+
+  it('closes the transport on unmount', () => {
+    const close = jest.fn();
+    const createTransport = createMemoryBroadcast();
+    const transport = (channelName: string) => ({
+      ...createTransport(channelName),
+      close,
+    });
+    const { AuthProvider } = createAtomStore(initialAuthStoreValue, {
+      name: 'auth' as const,
+      broadcast: { keys: ['token', 'onLogout'], transport },
+    });
+
+    const { unmount } = render(
+      <AuthProvider>
+        <div />
+      </AuthProvider>
+    );
+
+    unmount();
+
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
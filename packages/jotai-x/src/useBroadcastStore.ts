@@ -0,0 +1,160 @@
+import React from 'react';
+
+import type { JotaiStore, SimpleWritableAtomRecord } from './createAtomStore';
+
+/**
+ * 广播通道中本库用到的部分，与 BroadcastChannel（浏览器和 Node）的接口兼容。
+ */
+export type BroadcastTransport = {
+  postMessage: (message: any) => void;
+  addEventListener: (
+    type: 'message',
+    listener: (event: { data: any }) => void
+  ) => void;
+  removeEventListener: (
+    type: 'message',
+    listener: (event: { data: any }) => void
+  ) => void;
+  close: () => void;
+};
+
+/**
+ * 跨标签页同步的选项。
+ */
+export type BroadcastOptions<T> = {
+  keys: (keyof T)[];
+  /**
+   * Channel name. Defaults to the store name. The Provider scope, if any, is
+   * appended to the name.
+   */
+  channel?: string;
+  /**
+   * Creates the transport for a channel name. Defaults to `BroadcastChannel`
+   * when available.
+   */
+  transport?: (channelName: string) => BroadcastTransport;
+};
+
+/**
+ * 广播的消息：写入的键和值。
+ */
+type BroadcastMessage = {
+  key: string;
+  value: unknown;
+};
+
+const defaultTransport = (channelName: string) =>
+  typeof BroadcastChannel === 'undefined'
+    ? undefined
+    : new BroadcastChannel(channelName);
+
+/**
+ * Creates an in-memory transport factory, useful for tests. Transports created
+ * for the same channel name deliver messages to each other synchronously, but
+ * never to themselves.
+ */
+export const createMemoryBroadcast = () => {
+  const channels = new Map<string, Set<(event: { data: any }) => void>[]>();
+
+  return (channelName: string): BroadcastTransport => {
+    const listeners = new Set<(event: { data: any }) => void>();
+    const peers = channels.get(channelName) ?? [];
+
+    peers.push(listeners);
+    channels.set(channelName, peers);
+
+    return {
+      postMessage: (message) => {
+        for (const peer of peers) {
+          if (peer === listeners) continue;
+
+          for (const listener of peer) listener({ data: message });
+        }
+      },
+      addEventListener: (_type, listener) => {
+        listeners.add(listener);
+      },
+      removeEventListener: (_type, listener) => {
+        listeners.delete(listener);
+      },
+      close: () => {
+        listeners.clear();
+        peers.splice(peers.indexOf(listeners), 1);
+      },
+    };
+  };
+};
+
+/**
+ * Returns the channel name for a store, taking the Provider scope into account.
+ */
+export const getBroadcastChannelName = (
+  storeName: string,
+  { channel = storeName }: Pick<BroadcastOptions<any>, 'channel'>,
+  scope?: string
+) => (scope ? `${channel}:${scope}` : channel);
+
+/**
+ * Publish writes to the broadcast keys of a Provider's store, and apply writes
+ * received from other tabs or windows without publishing them again.
+ */
+export const useBroadcastStore = <T>(
+  atoms: SimpleWritableAtomRecord<T>,
+  options: BroadcastOptions<T> | undefined,
+  {
+    store,
+    storeName,
+    scope,
+  }: { store: JotaiStore; storeName: string; scope?: string }
+) => {
+  const channelName = options
+    ? getBroadcastChannelName(storeName, options, scope)
+    : undefined;
+
+  React.useEffect(() => {
+    if (!options || !channelName) return;
+
+    const { keys, transport: createTransport = defaultTransport } = options;
+    const transport = createTransport(channelName);
+
+    if (!transport) return;
+
+    // 应用远程写入时，不要将变化再次广播，避免回声循环
+    let isApplyingRemote = false;
+
+    const onMessage = ({ data }: { data: BroadcastMessage }) => {
+      if (!data || !keys.includes(data.key as keyof T)) return;
+
+      isApplyingRemote = true;
+
+      try {
+        store.set(atoms[data.key as keyof T], data.value as any);
+      } finally {
+        isApplyingRemote = false;
+      }
+    };
+
+    transport.addEventListener('message', onMessage);
+
+    const unsubscribes = keys.map((key) =>
+      store.sub(atoms[key], () => {
+        if (isApplyingRemote) return;
+
+        const value = store.get(atoms[key]);
+
+        // 函数无法被结构化克隆，跳过函数值
+        if (typeof value === 'function') return;
+
+        const message: BroadcastMessage = { key: key as string, value };
+        transport.postMessage(message);
+      })
+    );
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+
+      transport.removeEventListener('message', onMessage);
+      transport.close();
+    };
+  }, [atoms, channelName, store]);
+};
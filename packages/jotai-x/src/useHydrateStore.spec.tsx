@@ -0,0 +1,185 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { createAtomStore } from './createAtomStore';
+
+describe('useHydrateStore', () => {
+  type MyInputStoreValue = {
+    value: string | null;
+  };
+
+  const initialInputStoreValue: MyInputStoreValue = {
+    value: 'initial',
+  };
+
+  describe('sync mode', () => {
+    const { useInputStore, InputProvider } = createAtomStore(
+      initialInputStoreValue,
+      { name: 'input' as const }
+    );
+
+    const Input = () => {
+      const [value, setValue] = useInputStore().use.value();
+
+      return (
+        <>
+          <div>value: {JSON.stringify(value)}</div>
+          <button type="button" onClick={() => setValue('typed')}>
+            type
+          </button>
+        </>
+      );
+    };
+
+    it('calls the change callback when consumers write the atom', () => {
+      const onValueChange = jest.fn();
+
+      const { getByText, rerender } = render(
+        <InputProvider value="prop" onValueChange={onValueChange}>
+          <Input />
+        </InputProvider>
+      );
+
+      act(() => getByText('type').click());
+
+      expect(onValueChange).toHaveBeenCalledTimes(1);
+      expect(onValueChange).toHaveBeenCalledWith('typed');
+      expect(getByText('value: "typed"')).toBeInTheDocument();
+
+      rerender(
+        <InputProvider value="synced" onValueChange={onValueChange}>
+          <Input />
+        </InputProvider>
+      );
+
+      expect(getByText('value: "synced"')).toBeInTheDocument();
+      expect(onValueChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not sync null props', () => {
+      const { getByText, rerender } = render(
+        <InputProvider value="prop">
+          <Input />
+        </InputProvider>
+      );
+
+      rerender(
+        <InputProvider value={null}>
+          <Input />
+        </InputProvider>
+      );
+
+      expect(getByText('value: "prop"')).toBeInTheDocument();
+    });
+  });
+
+  describe('initial mode', () => {
+    const { useInputStore, InputProvider } = createAtomStore(
+      initialInputStoreValue,
+      {
+        name: 'input' as const,
+        syncMode: 'initial',
+      }
+    );
+
+    const Input = () => {
+      const value = useInputStore().get.value();
+
+      return <div>value: {JSON.stringify(value)}</div>;
+    };
+
+    it('only uses props to initialize the atoms', () => {
+      const { getByText, rerender } = render(
+        <InputProvider value="first">
+          <Input />
+        </InputProvider>
+      );
+
+      rerender(
+        <InputProvider value="second">
+          <Input />
+        </InputProvider>
+      );
+
+      expect(getByText('value: "first"')).toBeInTheDocument();
+    });
+  });
+
+  describe('controlled mode', () => {
+    const { useInputStore, InputProvider } = createAtomStore(
+      initialInputStoreValue,
+      {
+        name: 'input' as const,
+        syncMode: 'controlled',
+      }
+    );
+
+    const Input = () => {
+      const [value, setValue] = useInputStore().use.value();
+
+      return (
+        <>
+          <div>value: {JSON.stringify(value)}</div>
+          <button type="button" onClick={() => setValue('typed')}>
+            type
+          </button>
+        </>
+      );
+    };
+
+    it('keeps the prop value until the parent updates it', () => {
+      const onValueChange = jest.fn();
+
+      const { getByText } = render(
+        <InputProvider value="prop" onValueChange={onValueChange}>
+          <Input />
+        </InputProvider>
+      );
+
+      act(() => getByText('type').click());
+
+      expect(onValueChange).toHaveBeenCalledWith('typed');
+      expect(getByText('value: "prop"')).toBeInTheDocument();
+    });
+
+    it('behaves like a controlled input', () => {
+      const Parent = () => {
+        const [value, setValue] = React.useState<string | null>('prop');
+
+        return (
+          <InputProvider value={value} onValueChange={setValue}>
+            <Input />
+            <button type="button" onClick={() => setValue(null)}>
+              clear
+            </button>
+          </InputProvider>
+        );
+      };
+
+      const { getByText } = render(<Parent />);
+
+      act(() => getByText('type').click());
+      expect(getByText('value: "typed"')).toBeInTheDocument();
+
+      act(() => getByText('clear').click());
+      expect(getByText('value: null')).toBeInTheDocument();
+    });
+
+    it('leaves keys without a prop uncontrolled', () => {
+      const onValueChange = jest.fn();
+
+      const { getByText } = render(
+        <InputProvider onValueChange={onValueChange}>
+          <Input />
+        </InputProvider>
+      );
+
+      act(() => getByText('type').click());
+
+      expect(onValueChange).toHaveBeenCalledWith('typed');
+      expect(getByText('value: "typed"')).toBeInTheDocument();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useSetAtom } from 'jotai';
+import { useSetAtom, useStore } from 'jotai';
 import { useHydrateAtoms } from 'jotai/utils';
 
 import {
@@ -7,6 +7,7 @@ import {
   UseHydrateAtoms,
   UseSyncAtoms,
 } from './createAtomStore';
+import { setHydratedValues } from './resetStore';
 
 /**
  * 这段代码的主要目的是初始化和同步 Jotai 原子存储。useHydrateStore 钩子用于在服务器端渲染（SSR）时初始化原子，useSyncStore 钩子用于在客户端更新原子。
@@ -30,17 +31,44 @@ export const useHydrateStore = (
     }
   }
 
+  // 记录初始化的值，用于重置
+  if (options.store) {
+    setHydratedValues(options.store, values);
+  }
+
   // 使用 useHydrateAtoms 钩子来初始化原子
   useHydrateAtoms(values, options);
 };
 
+/**
+ * Provider 属性与原子的同步方式：
+ * - initial：属性只用于初始化原子。
+ * - sync：属性变化时更新原子，忽略 undefined 和 null。
+ * - controlled：属性是原子的唯一来源，null 也会写入原子，只有 undefined 表示不受控。
+ *   消费者写入受控的原子时调用 on<Key>Change，并将原子恢复为属性的值，直到父组件更新属性。
+ */
+export type SyncMode = 'initial' | 'sync' | 'controlled';
+
+/**
+ * 每个键对应的 Provider 属性 on<Key>Change，在消费者写入原子时调用。
+ */
+export type ChangeCallbacks<T> = {
+  [K in keyof T as `on${Capitalize<K & string>}Change`]?: (value: T[K]) => void;
+};
+
+const getChangeCallbackName = (key: string) =>
+  `on${key.length > 0 ? key[0].toUpperCase() + key.slice(1) : ''}Change`;
+
 /**
  * Update atoms with new values on changes.
  */
 export const useSyncStore = (
   atoms: SimpleWritableAtomRecord<any>,
   values: any,
-  { store }: Parameters<UseSyncAtoms<any>>[1] = {}
+  {
+    store,
+    syncMode = 'sync',
+  }: Parameters<UseSyncAtoms<any>>[1] & { syncMode?: SyncMode } = {}
 ) => {
   // 遍历原子，获取每个原子的值和设置器。
   for (const key of Object.keys(atoms)) {
@@ -50,10 +78,68 @@ export const useSyncStore = (
     const set = useSetAtom(atom, { store });
 
     React.useEffect(() => {
-      // 使用 useEffect 钩子来在值发生变化时更新原子。
-      if (value !== undefined && value !== null) {
+      if (syncMode === 'initial') return;
+
+      // 使用 useEffect 钩子来在值发生变化时更新原子。受控模式下 null 也会写入原子。
+      if (
+        value !== undefined &&
+        (value !== null || syncMode === 'controlled')
+      ) {
         set(value);
+
+        // 同步的值也作为重置的基准
+        if (store) {
+          setHydratedValues(store, [[atom, value]], { overwrite: true });
+        }
       }
     }, [set, value]);
   }
 };
+
+/**
+ * Call the `on<Key>Change` props when consumers write the atoms. Writes that
+ * set an atom to its prop value, such as syncing the props, are ignored. In
+ * controlled mode, controlled atoms are restored to their prop value.
+ */
+export const useChangeCallbacks = (
+  atoms: SimpleWritableAtomRecord<any>,
+  props: any,
+  {
+    store: storeOption,
+    syncMode = 'sync',
+  }: Parameters<UseSyncAtoms<any>>[1] & { syncMode?: SyncMode } = {}
+) => {
+  const store = useStore({ store: storeOption });
+
+  // 订阅中总是读取最新的属性
+  const propsRef = React.useRef(props);
+  propsRef.current = props;
+
+  // 没有回调且不是受控模式时不需要订阅
+  const enabled =
+    syncMode === 'controlled' ||
+    Object.keys(atoms).some((key) => !!props[getChangeCallbackName(key)]);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribes = Object.keys(atoms).map((key) =>
+      store.sub(atoms[key], () => {
+        const value = store.get(atoms[key]);
+        const propValue = propsRef.current[key];
+
+        if (Object.is(value, propValue)) return;
+
+        propsRef.current[getChangeCallbackName(key)]?.(value);
+
+        if (syncMode === 'controlled' && propValue !== undefined) {
+          store.set(atoms[key], propValue);
+        }
+      })
+    );
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+    };
+  }, [atoms, enabled, store, syncMode]);
+};
@@ -0,0 +1,98 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { createAtomStore } from './createAtomStore';
+
+describe('useInheritStore', () => {
+  type MyThemeStoreValue = {
+    color: string;
+    fontSize: number;
+  };
+
+  const initialThemeStoreValue: MyThemeStoreValue = {
+    color: 'black',
+    fontSize: 14,
+  };
+
+  const themeStore = createAtomStore(initialThemeStoreValue, {
+    name: 'theme' as const,
+  });
+
+  const liveThemeStore = createAtomStore(initialThemeStoreValue, {
+    name: 'theme' as const,
+    inherit: 'live',
+  });
+
+  const renderThemes = (
+    { useThemeStore, ThemeProvider }: typeof themeStore,
+    nestedProps: Partial<React.ComponentProps<typeof ThemeProvider>> = {}
+  ) => {
+    const Theme = ({ label }: { label: string }) => {
+      const [color, setColor] = useThemeStore(label).use.color();
+      const fontSize = useThemeStore(label).get.fontSize();
+
+      return (
+        <button type="button" onClick={() => setColor(`${label}-color`)}>
+          {label}: {color} {fontSize}
+        </button>
+      );
+    };
+
+    return render(
+      <ThemeProvider scope="parent" color="white">
+        <Theme label="parent" />
+
+        <ThemeProvider scope="child" {...nestedProps}>
+          <Theme label="child" />
+        </ThemeProvider>
+      </ThemeProvider>
+    );
+  };
+
+  it('does not inherit by default', () => {
+    const { getByText } = renderThemes(themeStore);
+
+    expect(getByText('child: black 14')).toBeInTheDocument();
+  });
+
+  it('copies the parent values once', () => {
+    const { getByText } = renderThemes(themeStore, {
+      inherit: 'copy',
+      fontSize: 20,
+    });
+
+    expect(getByText('child: white 20')).toBeInTheDocument();
+
+    act(() => getByText('parent: white 14').click());
+
+    expect(getByText('parent: parent-color 14')).toBeInTheDocument();
+    expect(getByText('child: white 20')).toBeInTheDocument();
+  });
+
+  it('links the parent values until overridden', () => {
+    const { getByText } = renderThemes(liveThemeStore, {
+      fontSize: 20,
+    });
+
+    expect(getByText('child: white 20')).toBeInTheDocument();
+
+    act(() => getByText('parent: white 14').click());
+    expect(getByText('child: parent-color 20')).toBeInTheDocument();
+
+    act(() => getByText('child: parent-color 20').click());
+    expect(getByText('child: child-color 20')).toBeInTheDocument();
+
+    act(() => getByText('parent: parent-color 14').click());
+    expect(getByText('child: child-color 20')).toBeInTheDocument();
+  });
+
+  it('overrides the store option with the inherit prop', () => {
+    const { getByText } = renderThemes(liveThemeStore, {
+      inherit: false,
+    });
+
+    expect(getByText('child: black 14')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+
+import type { JotaiStore, SimpleWritableAtomRecord } from './createAtomStore';
+
+/**
+ * 嵌套 Provider 继承父存储的值的方式：
+ * - copy：创建存储时复制一次父存储的值。
+ * - live：持续同步父存储的值，直到该键在子存储中被覆盖（初始化、同步或写入）。
+ */
+export type InheritMode = 'copy' | 'live';
+
+/**
+ * Read the current values of a parent store, to hydrate a nested Provider's
+ * store before `initialValues` and props.
+ */
+export const getInheritedValues = (
+  parentStore: JotaiStore,
+  atoms: SimpleWritableAtomRecord<any>
+) =>
+  Object.fromEntries(
+    Object.entries(atoms).map(([key, atomConfig]) => [
+      key,
+      parentStore.get(atomConfig),
+    ])
+  );
+
+/**
+ * Keep the keys of a nested Provider's store linked to the parent store in
+ * `'live'` mode. A key is unlinked once it is overridden in the nested store,
+ * either by `overriddenKeys` or by a later write.
+ */
+export const useInheritStore = (
+  atoms: SimpleWritableAtomRecord<any>,
+  mode: InheritMode | undefined,
+  {
+    store,
+    parentStore,
+    overriddenKeys,
+  }: {
+    store: JotaiStore;
+    parentStore: JotaiStore | undefined;
+    overriddenKeys: string[];
+  }
+) => {
+  React.useEffect(() => {
+    if (mode !== 'live' || !parentStore || parentStore === store) return;
+
+    const linkedKeys = new Set(
+      Object.keys(atoms).filter((key) => !overriddenKeys.includes(key))
+    );
+
+    // 复制父存储的值时，不要将键视为在子存储中被覆盖
+    let isCopying = false;
+
+    const copyValue = (key: string) => {
+      if (!linkedKeys.has(key)) return;
+
+      isCopying = true;
+
+      try {
+        store.set(atoms[key], parentStore.get(atoms[key]));
+      } finally {
+        isCopying = false;
+      }
+    };
+
+    // 父存储可能在渲染和挂载之间发生了变化
+    for (const key of linkedKeys) copyValue(key);
+
+    const unsubscribes = Object.entries(atoms).flatMap(([key, atomConfig]) => [
+      parentStore.sub(atomConfig, () => copyValue(key)),
+      store.sub(atomConfig, () => {
+        if (!isCopying) linkedKeys.delete(key);
+      }),
+    ]);
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+    };
+  }, [atoms, mode, parentStore, store]);
+};
@@ -0,0 +1,203 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { createAtomStore } from './createAtomStore';
+import { createMemoryStorage, PersistStorage } from './usePersistStore';
+
+describe('usePersistStore', () => {
+  type MyPersistedStoreValue = {
+    name: string;
+    age: number;
+    onChange: () => void;
+  };
+
+  const initialPersistedStoreValue: MyPersistedStoreValue = {
+    name: 'John',
+    age: 42,
+    onChange: () => {},
+  };
+
+  const readItem = (storage: PersistStorage, key: string) =>
+    JSON.parse(storage.getItem(key) as string);
+
+  it('rehydrates persisted values before children read', () => {
+    const storage = createMemoryStorage({
+      persisted: JSON.stringify({ state: { name: 'Jane' }, version: 0 }),
+    });
+
+    const { usePersistedStore, PersistedProvider } = createAtomStore(
+      initialPersistedStoreValue,
+      {
+        name: 'persisted' as const,
+        persist: { storage },
+      }
+    );
+
+    const Consumer = () => <div>{usePersistedStore().get.name()}</div>;
+
+    const { getByText } = render(
+      <PersistedProvider>
+        <Consumer />
+      </PersistedProvider>
+    );
+
+    expect(getByText('Jane')).toBeInTheDocument();
+  });
+
+  it('writes changes of allowed keys and skips functions', () => {
+    const storage = createMemoryStorage();
+
+    const { usePersistedStore, PersistedProvider } = createAtomStore(
+      initialPersistedStoreValue,
+      {
+        name: 'persisted' as const,
+        persist: { storage, exclude: ['age'] },
+      }
+    );
+
+    const Consumer = () => {
+      const setName = usePersistedStore().set.name();
+      const setAge = usePersistedStore().set.age();
+
+      return (
+        <button
+          type="button"
+          onClick={() => {
+            setName('Jane');
+            setAge(20);
+          }}
+        >
+          update
+        </button>
+      );
+    };
+
+    const { getByText } = render(
+      <PersistedProvider>
+        <Consumer />
+      </PersistedProvider>
+    );
+
+    act(() => getByText('update').click());
+
+    expect(readItem(storage, 'persisted')).toEqual({
+      state: { name: 'Jane' },
+      version: 0,
+    });
+  });
+
+  it('persists each scoped provider under its own key', () => {
+    const storage = createMemoryStorage({
+      'persisted:a': JSON.stringify({ state: { name: 'A' }, version: 0 }),
+      'persisted:b': JSON.stringify({ state: { name: 'B' }, version: 0 }),
+    });
+
+    const { usePersistedStore, PersistedProvider } = createAtomStore(
+      initialPersistedStoreValue,
+      {
+        name: 'persisted' as const,
+        persist: { storage, include: ['name'] },
+      }
+    );
+
+    const Consumer = ({ scope }: { scope: string }) => (
+      <div>{usePersistedStore(scope).get.name()}</div>
+    );
+
+    const { getByText } = render(
+      <PersistedProvider scope="a">
+        <Consumer scope="a" />
+        <PersistedProvider scope="b">
+          <Consumer scope="b" />
+        </PersistedProvider>
+      </PersistedProvider>
+    );
+
+    expect(getByText('A')).toBeInTheDocument();
+    expect(getByText('B')).toBeInTheDocument();
+  });
+
+  it('migrates persisted values with a different version', () => {
+    const storage = createMemoryStorage({
+      persisted: JSON.stringify({ state: { fullName: 'Jane' }, version: 1 }),
+    });
+
+    const migrate = jest.fn((state: any) => ({ name: state.fullName }));
+
+    const { usePersistedStore, PersistedProvider } = createAtomStore(
+      initialPersistedStoreValue,
+      {
+        name: 'persisted' as const,
+        persist: { storage, version: 2, migrate },
+      }
+    );
+
+    const Consumer = () => <div>{usePersistedStore().get.name()}</div>;
+
+    const { getByText } = render(
+      <PersistedProvider>
+        <Consumer />
+      </PersistedProvider>
+    );
+
+    expect(migrate).toHaveBeenCalledWith({ fullName: 'Jane' }, 1);
+    expect(getByText('Jane')).toBeInTheDocument();
+  });
+
+  it('discards persisted values with a different version without migrate', () => {
+    const storage = createMemoryStorage({
+      persisted: JSON.stringify({ state: { name: 'Jane' }, version: 1 }),
+    });
+
+    const { usePersistedStore, PersistedProvider } = createAtomStore(
+      initialPersistedStoreValue,
+      {
+        name: 'persisted' as const,
+        persist: { storage, version: 2 },
+      }
+    );
+
+    const Consumer = () => <div>{usePersistedStore().get.name()}</div>;
+
+    const { getByText } = render(
+      <PersistedProvider>
+        <Consumer />
+      </PersistedProvider>
+    );
+
+    expect(getByText('John')).toBeInTheDocument();
+  });
+
+  it('waits for async storage before rendering children', async () => {
+    const memoryStorage = createMemoryStorage({
+      persisted: JSON.stringify({ state: { age: 7 }, version: 0 }),
+    });
+
+    const storage: PersistStorage = {
+      getItem: async (key) => memoryStorage.getItem(key),
+      setItem: async (key, value) => memoryStorage.setItem(key, value),
+      removeItem: async (key) => memoryStorage.removeItem(key),
+    };
+
+    const { usePersistedStore, PersistedProvider } = createAtomStore(
+      initialPersistedStoreValue,
+      {
+        name: 'persisted' as const,
+        persist: { storage },
+      }
+    );
+
+    const Consumer = () => <div>age: {usePersistedStore().get.age()}</div>;
+
+    const { queryByText, findByText } = render(
+      <PersistedProvider>
+        <Consumer />
+      </PersistedProvider>
+    );
+
+    expect(queryByText('age: 42')).not.toBeInTheDocument();
+    expect(await findByText('age: 7')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,260 @@
+import React from 'react';
+
+import type { JotaiStore, SimpleWritableAtomRecord } from './createAtomStore';
+
+/**
+ * 持久化存储适配器，与 Web Storage 的接口兼容，每个方法都可以是异步的。
+ */
+export type PersistStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
+
+/**
+ * 持久化选项。`include` 和 `exclude` 分别是允许列表和拒绝列表，函数值的键会被自动跳过。
+ */
+export type PersistOptions<T> = {
+  /**
+   * Storage adapter. Defaults to `localStorage` when available.
+   */
+  storage?: PersistStorage;
+  /**
+   * Storage key. Defaults to the store name. The Provider scope, if any, is
+   * appended to the key.
+   */
+  key?: string;
+  include?: (keyof T)[];
+  exclude?: (keyof T)[];
+  /**
+   * Schema version written alongside the persisted state.
+   */
+  version?: number;
+  /**
+   * Migrates a persisted state written with a different `version`. If omitted,
+   * persisted states with a different version are discarded.
+   */
+  migrate?: (persistedState: any, version: number) => Partial<T>;
+};
+
+/**
+ * 持久化的数据格式：状态和写入时的版本号。
+ */
+type PersistedValue = {
+  state: Record<string, unknown>;
+  version: number;
+};
+
+type PersistStatus =
+  | { hydrated: true }
+  | { hydrated: false; promise: Promise<void> };
+
+/**
+ * Creates a storage adapter for a Web Storage object such as `localStorage`
+ * or `sessionStorage`. Falls back to a no-op storage when the Web Storage
+ * object is unavailable (e.g. during SSR).
+ */
+export const createWebStorage = (
+  getStorage: () => Storage | undefined
+): PersistStorage => {
+  const storage = () => {
+    try {
+      return getStorage();
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    getItem: (key) => storage()?.getItem(key) ?? null,
+    setItem: (key, value) => storage()?.setItem(key, value),
+    removeItem: (key) => storage()?.removeItem(key),
+  };
+};
+
+/**
+ * Creates an in-memory storage adapter, useful for tests and SSR.
+ */
+export const createMemoryStorage = (
+  initialItems: Record<string, string> = {}
+): PersistStorage => {
+  const items = new Map(Object.entries(initialItems));
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+const defaultStorage = createWebStorage(() =>
+  typeof window === 'undefined' ? undefined : window.localStorage
+);
+
+// 每个 Jotai 存储对应每个存储键的持久化状态，确保每个 Provider 的存储只恢复一次
+const persistStatusByStore = new WeakMap<
+  JotaiStore,
+  Map<string, PersistStatus>
+>();
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as PromiseLike<unknown>).then === 'function';
+
+/**
+ * 根据允许列表和拒绝列表过滤需要持久化的键。
+ */
+const getPersistedKeys = <T>(
+  atoms: SimpleWritableAtomRecord<T>,
+  { include, exclude = [] }: PersistOptions<T>
+) =>
+  (Object.keys(atoms) as (keyof T & string)[]).filter(
+    (key) => (!include || include.includes(key)) && !exclude.includes(key)
+  );
+
+/**
+ * Returns the storage key for a store, taking the Provider scope into account.
+ */
+export const getPersistKey = (
+  storeName: string,
+  { key = storeName }: Pick<PersistOptions<any>, 'key'>,
+  scope?: string
+) => (scope ? `${key}:${scope}` : key);
+
+/**
+ * 将持久化的状态写入 Jotai 存储，必要时先进行迁移。
+ */
+const restorePersistedValue = <T>(
+  store: JotaiStore,
+  atoms: SimpleWritableAtomRecord<T>,
+  options: PersistOptions<T>,
+  rawValue: string | null
+) => {
+  if (rawValue === null) return;
+
+  let persisted: PersistedValue;
+
+  try {
+    persisted = JSON.parse(rawValue);
+  } catch {
+    return;
+  }
+
+  const { version = 0, migrate } = options;
+  let state: Record<string, unknown> | undefined = persisted.state;
+
+  if (persisted.version !== version) {
+    state = migrate ? migrate(state, persisted.version) : undefined;
+  }
+
+  if (!state) return;
+
+  for (const key of getPersistedKeys(atoms, options)) {
+    if (key in state) {
+      store.set(atoms[key], state[key] as any);
+    }
+  }
+};
+
+/**
+ * Rehydrate a Provider's store from the persistence storage before its
+ * children read it, then write changes of the persisted keys back to the
+ * storage. Returns `false` while an async storage is still being read.
+ */
+export const usePersistStore = <T>(
+  atoms: SimpleWritableAtomRecord<T>,
+  options: PersistOptions<T>,
+  {
+    store,
+    storeName,
+    scope,
+  }: { store: JotaiStore; storeName: string; scope?: string }
+): boolean => {
+  const { storage = defaultStorage, version = 0 } = options;
+  const persistKey = getPersistKey(storeName, options, scope);
+
+  const [, forceRender] = React.useReducer((x: number) => x + 1, 0);
+
+  // 同步的存储在渲染期间恢复，异步的存储在读取完成后恢复
+  let statusByKey = persistStatusByStore.get(store);
+
+  if (!statusByKey) {
+    statusByKey = new Map();
+    persistStatusByStore.set(store, statusByKey);
+  }
+
+  let status = statusByKey.get(persistKey);
+
+  if (!status) {
+    const rawValue = storage.getItem(persistKey);
+
+    if (isPromiseLike(rawValue)) {
+      const map = statusByKey;
+
+      status = {
+        hydrated: false,
+        promise: Promise.resolve(rawValue)
+          .then((value) => restorePersistedValue(store, atoms, options, value))
+          .catch((error) => console.error(error))
+          .finally(() => map.set(persistKey, { hydrated: true })),
+      };
+    } else {
+      restorePersistedValue(store, atoms, options, rawValue);
+      status = { hydrated: true };
+    }
+
+    statusByKey.set(persistKey, status);
+  }
+
+  const { hydrated } = status;
+
+  React.useEffect(() => {
+    if (status && !status.hydrated) {
+      let active = true;
+
+      status.promise.then(() => active && forceRender());
+
+      return () => {
+        active = false;
+      };
+    }
+  }, [status]);
+
+  React.useEffect(() => {
+    if (!hydrated) return;
+
+    const keys = getPersistedKeys(atoms, options);
+
+    const writeState = () => {
+      const state: Record<string, unknown> = {};
+
+      for (const key of keys) {
+        const value = store.get(atoms[key]);
+
+        // 函数无法被序列化，跳过函数值的键
+        if (typeof value !== 'function') {
+          state[key] = value;
+        }
+      }
+
+      const persisted: PersistedValue = { state, version };
+
+      Promise.resolve(
+        storage.setItem(persistKey, JSON.stringify(persisted))
+      ).catch((error) => console.error(error));
+    };
+
+    const unsubscribes = keys.map((key) => store.sub(atoms[key], writeState));
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+    };
+  }, [store, persistKey, hydrated]);
+
+  return hydrated;
+};
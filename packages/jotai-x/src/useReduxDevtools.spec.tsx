@@ -0,0 +1,196 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { createAtomStore } from './createAtomStore';
+
+describe('useReduxDevtools', () => {
+  type MyDevtoolsStoreValue = {
+    name: string;
+    age: number;
+    onChange: () => void;
+  };
+
+  const initialDevtoolsStoreValue: MyDevtoolsStoreValue = {
+    name: 'John',
+    age: 42,
+    onChange: () => {},
+  };
+
+  const { devtoolsStore, useDevtoolsStore, DevtoolsProvider } = createAtomStore(
+    initialDevtoolsStoreValue,
+    {
+      name: 'devtools' as const,
+      devtools: true,
+    }
+  );
+
+  const createFakeExtension = () => {
+    const connections: {
+      name?: string;
+      init: jest.Mock;
+      send: jest.Mock;
+      dispatch: (message: any) => void;
+      unsubscribe: jest.Mock;
+    }[] = [];
+
+    const extension = {
+      connect: jest.fn(({ name }: { name?: string }) => {
+        let listener: (message: any) => void = () => {};
+        const unsubscribe = jest.fn();
+
+        const connection = {
+          name,
+          init: jest.fn(),
+          send: jest.fn(),
+          dispatch: (message: any) => listener(message),
+          unsubscribe,
+        };
+
+        connections.push(connection);
+
+        return {
+          init: connection.init,
+          send: connection.send,
+          subscribe: (newListener: (message: any) => void) => {
+            listener = newListener;
+            return unsubscribe;
+          },
+        };
+      }),
+    };
+
+    return { extension, connections };
+  };
+
+  const Consumer = () => {
+    const [age, setAge] = useDevtoolsStore().use.age();
+
+    return (
+      <button type="button" onClick={() => setAge(age + 1)}>
+        age: {age}
+      </button>
+    );
+  };
+
+  let fake: ReturnType<typeof createFakeExtension>;
+
+  beforeEach(() => {
+    fake = createFakeExtension();
+    window.__REDUX_DEVTOOLS_EXTENSION__ = fake.extension;
+  });
+
+  afterEach(() => {
+    delete window.__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it('labels atoms with the store name and key', () => {
+    expect(devtoolsStore.atom.name.debugLabel).toBe('devtools.name');
+    expect(devtoolsStore.atom.onChange.debugLabel).toBe('devtools.onChange');
+  });
+
+  it('does not label atoms without the devtools option', () => {
+    const { plainStore } = createAtomStore(
+      { name: 'Jane' },
+      { name: 'plain' as const }
+    );
+
+    expect(plainStore.atom.name.debugLabel).toBeUndefined();
+  });
+
+  it('registers each provider as a separate instance', () => {
+    render(
+      <DevtoolsProvider scope="outer">
+        <DevtoolsProvider age={1}>
+          <Consumer />
+        </DevtoolsProvider>
+      </DevtoolsProvider>
+    );
+
+    expect(fake.connections.map(({ name }) => name).sort()).toEqual([
+      'devtools:outer',
+      'devtools:provider',
+    ]);
+
+    const inner = fake.connections.find(
+      ({ name }) => name === 'devtools:provider'
+    )!;
+
+    expect(inner.init).toHaveBeenCalledWith({ name: 'John', age: 1 });
+  });
+
+  it('streams state changes', () => {
+    const { getByText } = render(
+      <DevtoolsProvider>
+        <Consumer />
+      </DevtoolsProvider>
+    );
+
+    act(() => getByText('age: 42').click());
+
+    expect(fake.connections[0].send).toHaveBeenCalledWith(
+      { type: 'devtools.age' },
+      { name: 'John', age: 43 }
+    );
+  });
+
+  it('jumps to a state without sending it back', () => {
+    const { getByText } = render(
+      <DevtoolsProvider>
+        <Consumer />
+      </DevtoolsProvider>
+    );
+
+    const [connection] = fake.connections;
+
+    act(() =>
+      connection.dispatch({
+        type: 'DISPATCH',
+        payload: { type: 'JUMP_TO_STATE' },
+        state: JSON.stringify({ name: 'John', age: 7 }),
+      })
+    );
+
+    expect(getByText('age: 7')).toBeInTheDocument();
+    expect(connection.send).not.toHaveBeenCalled();
+  });
+
+  it('imports a state', () => {
+    const { getByText } = render(
+      <DevtoolsProvider>
+        <Consumer />
+      </DevtoolsProvider>
+    );
+
+    const [connection] = fake.connections;
+    const nextLiftedState = {
+      computedStates: [
+        { state: { name: 'John', age: 1 } },
+        { state: { name: 'John', age: 2 } },
+      ],
+    };
+
+    act(() =>
+      connection.dispatch({
+        type: 'DISPATCH',
+        payload: { type: 'IMPORT_STATE', nextLiftedState },
+      })
+    );
+
+    expect(getByText('age: 2')).toBeInTheDocument();
+    expect(connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+  });
+
+  it('disconnects when the provider unmounts', () => {
+    const { unmount } = render(
+      <DevtoolsProvider>
+        <Consumer />
+      </DevtoolsProvider>
+    );
+
+    unmount();
+
+    expect(fake.connections[0].unsubscribe).toHaveBeenCalled();
+  });
+});
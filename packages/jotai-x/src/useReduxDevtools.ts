@@ -0,0 +1,168 @@
+import React from 'react';
+
+import type { JotaiStore, SimpleWritableAtomRecord } from './createAtomStore';
+
+/**
+ * Redux DevTools 选项。传入 `true` 等同于 `{ enabled: true }`。
+ */
+export type DevtoolsOptions = {
+  /**
+   * Defaults to `true`. Use e.g. `process.env.NODE_ENV !== 'production'`.
+   */
+  enabled?: boolean;
+  /**
+   * Instance name prefix. Defaults to the store name.
+   */
+  name?: string;
+};
+
+/**
+ * Redux DevTools 扩展中本库用到的部分。
+ */
+type DevtoolsMessage = {
+  type: string;
+  state?: string;
+  payload?: {
+    type: string;
+    nextLiftedState?: { computedStates: { state: Record<string, unknown> }[] };
+  };
+};
+
+type DevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (action: unknown, state: unknown) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void;
+  unsubscribe?: () => void;
+};
+
+export type ReduxDevtoolsExtension = {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+};
+
+declare global {
+  interface Window {
+    __REDUX_DEVTOOLS_EXTENSION__?: ReduxDevtoolsExtension;
+  }
+}
+
+const getDevtoolsExtension = () =>
+  typeof window === 'undefined'
+    ? undefined
+    : window.__REDUX_DEVTOOLS_EXTENSION__;
+
+/**
+ * 读取所有原子的值，函数值无法被序列化，因此跳过。
+ */
+const getSerializableState = (
+  store: JotaiStore,
+  atoms: SimpleWritableAtomRecord<any>
+) => {
+  const state: Record<string, unknown> = {};
+
+  for (const [key, atomConfig] of Object.entries(atoms)) {
+    const value = store.get(atomConfig);
+
+    if (typeof value !== 'function') {
+      state[key] = value;
+    }
+  }
+
+  return state;
+};
+
+/**
+ * Connect a Provider's store to the Redux DevTools extension as a separate
+ * instance named `<name>:<scope>`. State changes are streamed to the
+ * extension, which can jump to a previous state or import a state.
+ */
+export const useReduxDevtools = (
+  atoms: SimpleWritableAtomRecord<any>,
+  options: boolean | DevtoolsOptions | undefined,
+  {
+    store,
+    storeName,
+    scope = 'provider',
+  }: { store: JotaiStore; storeName: string; scope?: string }
+) => {
+  const { enabled = !!options, name = storeName } =
+    typeof options === 'object' ? options : {};
+
+  React.useEffect(() => {
+    const extension = getDevtoolsExtension();
+
+    if (!enabled || !extension) return;
+
+    const connection = extension.connect({ name: `${name}:${scope}` });
+
+    // 在时间旅行期间写入原子时，不要将变化再次发送到 DevTools
+    let isTimeTraveling = false;
+
+    const setState = (state: Record<string, unknown>) => {
+      isTimeTraveling = true;
+
+      try {
+        for (const [key, atomConfig] of Object.entries(atoms)) {
+          if (key in state && typeof store.get(atomConfig) !== 'function') {
+            store.set(atomConfig, state[key]);
+          }
+        }
+      } finally {
+        isTimeTraveling = false;
+      }
+    };
+
+    connection.init(getSerializableState(store, atoms));
+
+    const unsubscribes = Object.entries(atoms).map(([key, atomConfig]) =>
+      store.sub(atomConfig, () => {
+        if (isTimeTraveling) return;
+
+        connection.send(
+          { type: `${storeName}.${key}` },
+          getSerializableState(store, atoms)
+        );
+      })
+    );
+
+    const unsubscribeDevtools = connection.subscribe((message) => {
+      if (message.type !== 'DISPATCH' || !message.payload) return;
+
+      switch (message.payload.type) {
+        case 'JUMP_TO_STATE':
+        case 'JUMP_TO_ACTION': {
+          if (message.state) {
+            setState(JSON.parse(message.state));
+          }
+          break;
+        }
+        case 'COMMIT': {
+          connection.init(getSerializableState(store, atoms));
+          break;
+        }
+        case 'IMPORT_STATE': {
+          const { nextLiftedState } = message.payload;
+          const computedStates = nextLiftedState?.computedStates ?? [];
+          const [lastComputedState] = computedStates.slice(-1);
+
+          if (lastComputedState) {
+            setState(lastComputedState.state);
+            connection.send(null, nextLiftedState);
+          }
+          break;
+        }
+      }
+    });
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+
+      if (typeof unsubscribeDevtools === 'function') {
+        unsubscribeDevtools();
+      } else {
+        connection.unsubscribe?.();
+      }
+    };
+  }, [atoms, enabled, name, scope, store, storeName]);
+};
@@ -0,0 +1,167 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { createAtomStore } from './createAtomStore';
+import { createMemoryLocation } from './useUrlSyncStore';
+
+import type { UrlSyncOptions } from './useUrlSyncStore';
+
+describe('useUrlSyncStore', () => {
+  type MyListStoreValue = {
+    query: string;
+    page: number;
+    tags: string[];
+    selected: string | null;
+  };
+
+  const initialListStoreValue: MyListStoreValue = {
+    query: '',
+    page: 1,
+    tags: [],
+    selected: null,
+  };
+
+  const urlSyncKeys: UrlSyncOptions<MyListStoreValue>['keys'] = {
+    query: { param: 'q' },
+    page: { mode: 'push' },
+    tags: {
+      parse: (value) => value.split(','),
+      serialize: (tags) => (tags.length > 0 ? tags.join(',') : null),
+    },
+  };
+
+  it('hydrates the store from the URL like initialValues', () => {
+    const location = createMemoryLocation('?q=shoes&page=3&tags=red,blue');
+    const { listStore, ListProvider } = createAtomStore(initialListStoreValue, {
+      name: 'list' as const,
+      urlSync: { keys: urlSyncKeys, location },
+    });
+
+    render(
+      <ListProvider initialValues={{ query: 'hats', selected: 'first' }}>
+        <div />
+      </ListProvider>
+    );
+
+    expect(listStore.getState()).toEqual({
+      query: 'shoes',
+      page: 3,
+      tags: ['red', 'blue'],
+      selected: 'first',
+    });
+  });
+
+  it('writes changes to the URL with push or replace', () => {
+    const location = createMemoryLocation('?other=1#top');
+    const { listStore, ListProvider } = createAtomStore(initialListStoreValue, {
+      name: 'list' as const,
+      urlSync: { keys: urlSyncKeys, location },
+    });
+
+    render(
+      <ListProvider>
+        <div />
+      </ListProvider>
+    );
+
+    act(() => listStore.set.query(undefined, 'shoes'));
+    expect(location.entries).toEqual(['?other=1&q=shoes#top']);
+
+    act(() => listStore.set.page(undefined, 2));
+    act(() => listStore.set.tags(undefined, ['red']));
+    act(() => listStore.set.selected(undefined, 'first'));
+    expect(location.entries).toEqual([
+      '?other=1&q=shoes#top',
+      '?other=1&q=shoes&page=2&tags=red#top',
+    ]);
+
+    act(() => listStore.set.tags(undefined, []));
+    expect(location.entries).toEqual([
+      '?other=1&q=shoes#top',
+      '?other=1&q=shoes&page=2#top',
+    ]);
+  });
+
+  it('debounces writes to the hash', () => {
+    jest.useFakeTimers();
+
+    const location = createMemoryLocation('?other=1');
+    const { listStore, ListProvider } = createAtomStore(initialListStoreValue, {
+      name: 'list' as const,
+      urlSync: { keys: urlSyncKeys, location, target: 'hash', debounce: 300 },
+    });
+
+    render(
+      <ListProvider>
+        <div />
+      </ListProvider>
+    );
+
+    act(() => {
+      listStore.set.query(undefined, 's');
+      listStore.set.query(undefined, 'shoes');
+    });
+    expect(location.entries).toEqual(['?other=1']);
+
+    act(() => jest.advanceTimersByTime(300));
+    expect(location.entries).toEqual(['?other=1#q=shoes']);
+
+    jest.useRealTimers();
+  });
+
+  it('keeps pending writes when the URL changes', () => {
+    jest.useFakeTimers();
+
+    const location = createMemoryLocation('?q=hats');
+    const { listStore, ListProvider } = createAtomStore(initialListStoreValue, {
+      name: 'list' as const,
+      urlSync: { keys: urlSyncKeys, location, debounce: 300 },
+    });
+
+    render(
+      <ListProvider>
+        <div />
+      </ListProvider>
+    );
+
+    act(() => listStore.set.query(undefined, 'shoes'));
+    act(() => location.navigate('?page=2'));
+
+    expect(listStore.get.query()).toBe('shoes');
+    expect(listStore.get.page()).toBe(2);
+
+    act(() => jest.advanceTimersByTime(300));
+    expect(location.entries).toEqual(['?q=hats', '?page=2&q=shoes']);
+
+    jest.useRealTimers();
+  });
+
+  it('applies URL changes without writing them back', () => {
+    const location = createMemoryLocation('?page=2');
+    const { listStore, ListProvider } = createAtomStore(initialListStoreValue, {
+      name: 'list' as const,
+      urlSync: { keys: urlSyncKeys, location },
+    });
+
+    render(
+      <ListProvider>
+        <div />
+      </ListProvider>
+    );
+
+    act(() => location.navigate('?page=5&q=hats'));
+
+    expect(listStore.get.page()).toBe(5);
+    expect(listStore.get.query()).toBe('hats');
+    expect(location.entries).toEqual(['?page=2', '?page=5&q=hats']);
+
+    // Removed parameters reset the key to its initialState value
+    act(() => location.navigate(''));
+
+    expect(listStore.get.page()).toBe(1);
+    expect(listStore.get.query()).toBe('');
+    expect(location.entries).toEqual(['?page=2', '?page=5&q=hats', '']);
+  });
+});
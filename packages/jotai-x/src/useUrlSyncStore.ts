@@ -0,0 +1,357 @@
+import React from 'react';
+
+import type { JotaiStore, SimpleWritableAtomRecord } from './createAtomStore';
+
+/**
+ * 写入 URL 时使用的历史记录方式。
+ */
+export type UrlHistoryMode = 'push' | 'replace';
+
+/**
+ * URL 中与同步相关的部分。
+ */
+export type UrlLocation = {
+  search: string;
+  hash: string;
+};
+
+/**
+ * 位置适配器，用于读取和写入 URL，可以基于 history、Next.js 路由或内存实现。
+ */
+export type UrlLocationAdapter = {
+  read: () => UrlLocation;
+  write: (location: UrlLocation, mode: UrlHistoryMode) => void;
+  /**
+   * Subscribes to URL changes that were not made by `write`, e.g. back and
+   * forward navigation.
+   */
+  subscribe?: (listener: () => void) => () => void;
+};
+
+/**
+ * 每个键的 URL 参数选项。
+ */
+export type UrlParamOptions<V> = {
+  /**
+   * Parameter name. Defaults to the key.
+   */
+  param?: string;
+  parse?: (value: string) => V;
+  /**
+   * Returning `null` removes the parameter from the URL.
+   */
+  serialize?: (value: V) => string | null;
+  mode?: UrlHistoryMode;
+};
+
+/**
+ * URL 同步选项。keys 中每个键可以是 true 或该键的参数选项。
+ */
+export type UrlSyncOptions<T> = {
+  keys: { [K in keyof T]?: boolean | UrlParamOptions<T[K]> };
+  /**
+   * Defaults to `'search'`.
+   */
+  target?: 'search' | 'hash';
+  /**
+   * Defaults to `'replace'`. Can be overridden for each key.
+   */
+  mode?: UrlHistoryMode;
+  /**
+   * Delay in milliseconds before writing changes to the URL. Defaults to `0`,
+   * writing synchronously.
+   */
+  debounce?: number;
+  /**
+   * Defaults to `createBrowserLocation()`.
+   */
+  location?: UrlLocationAdapter;
+};
+
+/**
+ * Creates a location adapter for `window.location` and `window.history`,
+ * subscribing to `popstate` and `hashchange`. Reads an empty URL when
+ * `window` is unavailable (e.g. during SSR).
+ */
+export const createBrowserLocation = (): UrlLocationAdapter => ({
+  read: () =>
+    typeof window === 'undefined'
+      ? { search: '', hash: '' }
+      : { search: window.location.search, hash: window.location.hash },
+  write: ({ search, hash }, mode) => {
+    if (typeof window === 'undefined') return;
+
+    const url = `${window.location.pathname}${search}${hash}`;
+
+    if (mode === 'push') {
+      window.history.pushState(window.history.state, '', url);
+    } else {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  },
+  subscribe: (listener) => {
+    if (typeof window === 'undefined') return () => {};
+
+    window.addEventListener('popstate', listener);
+    window.addEventListener('hashchange', listener);
+
+    return () => {
+      window.removeEventListener('popstate', listener);
+      window.removeEventListener('hashchange', listener);
+    };
+  },
+});
+
+/**
+ * Creates an in-memory location adapter, useful for tests. `entries` holds the
+ * history entries as `search + hash` strings, and `navigate` simulates a URL
+ * change that was not made by the store.
+ */
+export const createMemoryLocation = (initialUrl = '') => {
+  const parseUrl = (url: string): UrlLocation => {
+    const hashIndex = url.indexOf('#');
+
+    return hashIndex === -1
+      ? { search: url, hash: '' }
+      : { search: url.slice(0, hashIndex), hash: url.slice(hashIndex) };
+  };
+
+  const entries = [initialUrl];
+  const listeners = new Set<() => void>();
+
+  const adapter: UrlLocationAdapter & {
+    entries: string[];
+    navigate: (url: string) => void;
+  } = {
+    entries,
+    read: () => {
+      const [url] = entries.slice(-1);
+
+      return parseUrl(url);
+    },
+    write: ({ search, hash }, mode) => {
+      if (mode === 'replace') entries.pop();
+
+      entries.push(`${search}${hash}`);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+
+      return () => listeners.delete(listener);
+    },
+    navigate: (url) => {
+      entries.push(url);
+
+      for (const listener of listeners) listener();
+    },
+  };
+
+  return adapter;
+};
+
+const defaultLocation = createBrowserLocation();
+
+/**
+ * 每个同步键的参数名、解析器、序列化器和历史记录方式。
+ */
+type UrlParam = {
+  key: string;
+  param: string;
+  parse: (value: string, currentValue: unknown) => unknown;
+  serialize: (value: unknown) => string | null;
+  mode?: UrlHistoryMode;
+};
+
+// 默认情况下字符串原样写入，其他值写入 JSON；当前值是字符串时原样读取
+const defaultSerialize = (value: unknown) =>
+  value === undefined || value === null
+    ? null
+    : typeof value === 'string'
+      ? value
+      : JSON.stringify(value);
+
+const defaultParse = (value: string, currentValue: unknown) => {
+  if (typeof currentValue === 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const getUrlParams = (options: UrlSyncOptions<any>): UrlParam[] =>
+  Object.entries(options.keys)
+    .filter(([, paramOptions]) => !!paramOptions)
+    .map(([key, paramOptions]) => {
+      const {
+        param = key,
+        parse,
+        serialize = defaultSerialize,
+        mode,
+      }: UrlParamOptions<unknown> = typeof paramOptions === 'object'
+        ? paramOptions
+        : {};
+
+      return {
+        key,
+        param,
+        parse: parse ? (value) => parse(value) : defaultParse,
+        serialize,
+        mode,
+      };
+    });
+
+const readSearchParams = (
+  adapter: UrlLocationAdapter,
+  target: UrlSyncOptions<any>['target']
+) => {
+  const { search, hash } = adapter.read();
+
+  return new URLSearchParams(
+    target === 'hash' ? hash.replace(/^#/, '') : search
+  );
+};
+
+/**
+ * Read the values of the synced keys from the URL, to hydrate a Provider's
+ * store like `initialValues`. Keys without a URL parameter are omitted.
+ */
+export const getUrlValues = (
+  store: JotaiStore,
+  atoms: SimpleWritableAtomRecord<any>,
+  options: UrlSyncOptions<any>
+) => {
+  const { target, location = defaultLocation } = options;
+  const searchParams = readSearchParams(location, target);
+  const values: Record<string, unknown> = {};
+
+  for (const { key, param, parse } of getUrlParams(options)) {
+    const value = searchParams.get(param);
+
+    if (value !== null && key in atoms) {
+      values[key] = parse(value, store.get(atoms[key]));
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Write changes of the synced keys of a Provider's store to the URL, and apply
+ * URL changes made outside of the store. Keys whose parameter is removed from
+ * the URL are reset to their `initialState` value with `resetKeys`. Keys with a
+ * pending debounced write keep their value.
+ */
+export const useUrlSyncStore = (
+  atoms: SimpleWritableAtomRecord<any>,
+  options: UrlSyncOptions<any> | undefined,
+  {
+    store,
+    resetKeys,
+  }: { store: JotaiStore; resetKeys: (keys: string[]) => void }
+) => {
+  React.useEffect(() => {
+    if (!options) return;
+
+    const {
+      target = 'search',
+      mode: defaultMode = 'replace',
+      debounce = 0,
+      location = defaultLocation,
+    } = options;
+
+    const params = getUrlParams(options).filter(({ key }) => key in atoms);
+
+    // 应用 URL 的变化时，不要将变化再次写入 URL
+    let isApplyingUrl = false;
+    // 等待写入 URL 的键
+    const pendingKeys = new Set<string>();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const writeUrl = () => {
+      timeout = undefined;
+
+      const searchParams = readSearchParams(location, target);
+      let mode: UrlHistoryMode = 'replace';
+
+      for (const { key, param, serialize, mode: paramMode } of params) {
+        if (!pendingKeys.has(key)) continue;
+
+        const value = serialize(store.get(atoms[key]));
+
+        if (value === null) {
+          searchParams.delete(param);
+        } else {
+          searchParams.set(param, value);
+        }
+
+        // 任意一个键使用 push 时，整个写入使用 push
+        if ((paramMode ?? defaultMode) === 'push') mode = 'push';
+      }
+
+      pendingKeys.clear();
+
+      const query = searchParams.toString();
+      const current = location.read();
+
+      location.write(
+        target === 'hash'
+          ? { search: current.search, hash: query ? `#${query}` : '' }
+          : { search: query ? `?${query}` : '', hash: current.hash },
+        mode
+      );
+    };
+
+    const unsubscribes = params.map(({ key }) =>
+      store.sub(atoms[key], () => {
+        if (isApplyingUrl) return;
+
+        pendingKeys.add(key);
+
+        if (debounce > 0) {
+          clearTimeout(timeout);
+          timeout = setTimeout(writeUrl, debounce);
+        } else {
+          writeUrl();
+        }
+      })
+    );
+
+    const applyUrl = () => {
+      const searchParams = readSearchParams(location, target);
+      const removedKeys: string[] = [];
+
+      isApplyingUrl = true;
+
+      try {
+        for (const { key, param, parse, serialize } of params) {
+          // 等待写入 URL 的键保留本地的值，避免丢失防抖中的修改
+          if (pendingKeys.has(key)) continue;
+
+          const value = searchParams.get(param);
+          const currentValue = store.get(atoms[key]);
+
+          if (value === null) {
+            removedKeys.push(key);
+          } else if (value !== serialize(currentValue)) {
+            store.set(atoms[key], parse(value, currentValue));
+          }
+        }
+
+        if (removedKeys.length > 0) resetKeys(removedKeys);
+      } finally {
+        isApplyingUrl = false;
+      }
+    };
+
+    const unsubscribeLocation = location.subscribe?.(applyUrl);
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+
+      unsubscribeLocation?.();
+      clearTimeout(timeout);
+    };
+  }, [atoms, store]);
+};
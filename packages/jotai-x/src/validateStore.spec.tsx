@@ -0,0 +1,165 @@
+import '@testing-library/jest-dom';
+
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { createStore } from 'jotai';
+
+import { createAtomStore } from './createAtomStore';
+
+import type { StandardSchemaV1 } from './validateStore';
+
+describe('validateStore', () => {
+  // 一个最小的 Standard Schema 实现：接受数字或数字字符串，并将其转换为数字
+  const positiveNumber: StandardSchemaV1<number | string, number> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const number = Number(value);
+
+        return Number.isNaN(number) || number <= 0
+          ? { issues: [{ message: 'Expected a positive number' }] }
+          : { value: number };
+      },
+    },
+  };
+
+  type MyFormStoreValue = {
+    name: string;
+    age: number;
+  };
+
+  const initialFormStoreValue: MyFormStoreValue = {
+    name: 'John',
+    age: 42,
+  };
+
+  it('rejects invalid values by default', () => {
+    const { formStore } = createAtomStore(initialFormStoreValue, {
+      name: 'form' as const,
+      validate: { schemas: { age: positiveNumber } },
+    });
+    const store = createStore();
+
+    formStore.set.age(store, -1);
+    expect(formStore.get.age(store)).toBe(42);
+
+    formStore.set.age(store, 1);
+    expect(formStore.get.age(store)).toBe(1);
+  });
+
+  it('writes the output of the schema when coercing', () => {
+    const { formStore } = createAtomStore(initialFormStoreValue, {
+      name: 'form' as const,
+      validate: { schemas: { age: positiveNumber }, policy: 'coerce' },
+    });
+    const store = createStore();
+
+    formStore.set.age(store, '7' as any);
+    expect(formStore.get.age(store)).toBe(7);
+
+    formStore.set.age(store, 'abc' as any);
+    expect(formStore.get.age(store)).toBe(7);
+  });
+
+  it('stores and flags invalid values', () => {
+    const { formStore } = createAtomStore(initialFormStoreValue, {
+      name: 'form' as const,
+      validate: { schemas: { age: positiveNumber }, policy: 'flag' },
+    });
+    const store = createStore();
+
+    formStore.set.age(store, -1);
+    expect(formStore.get.age(store)).toBe(-1);
+  });
+
+  it('exposes the issues of the last written value', () => {
+    const { useFormStore, FormProvider } = createAtomStore(
+      initialFormStoreValue,
+      {
+        name: 'form' as const,
+        validate: { schemas: { age: positiveNumber } },
+      }
+    );
+
+    const Form = () => {
+      const [age, setAge] = useFormStore().use.age();
+      const errors = useFormStore().errors.age();
+      const nameErrors = useFormStore().errors.name();
+
+      return (
+        <>
+          <div>age: {age}</div>
+          <div>errors: {errors.map(({ message }) => message).join(', ')}</div>
+          <div>name errors: {nameErrors.length}</div>
+          <button type="button" onClick={() => setAge(-1)}>
+            invalid
+          </button>
+          <button type="button" onClick={() => setAge(2)}>
+            valid
+          </button>
+        </>
+      );
+    };
+
+    const { getByText } = render(
+      <FormProvider>
+        <Form />
+      </FormProvider>
+    );
+
+    act(() => getByText('invalid').click());
+    expect(getByText('age: 42')).toBeInTheDocument();
+    expect(getByText('errors: Expected a positive number')).toBeInTheDocument();
+    expect(getByText('name errors: 0')).toBeInTheDocument();
+
+    act(() => getByText('valid').click());
+    expect(getByText('age: 2')).toBeInTheDocument();
+    expect(getByText('errors:')).toBeInTheDocument();
+  });
+
+  it('validates hydrated and synced values', () => {
+    const { useFormStore, FormProvider } = createAtomStore(
+      initialFormStoreValue,
+      {
+        name: 'form' as const,
+        validate: { schemas: { age: positiveNumber } },
+      }
+    );
+
+    const Age = () => {
+      const age = useFormStore().get.age();
+      const errors = useFormStore().errors.age();
+
+      return (
+        <div>
+          age: {age}, errors: {errors.length}
+        </div>
+      );
+    };
+
+    const { getByText, rerender } = render(
+      <FormProvider initialValues={{ age: 0 }}>
+        <Age />
+      </FormProvider>
+    );
+
+    expect(getByText('age: 42, errors: 1')).toBeInTheDocument();
+
+    rerender(
+      <FormProvider initialValues={{ age: 0 }} age={3}>
+        <Age />
+      </FormProvider>
+    );
+
+    expect(getByText('age: 3, errors: 0')).toBeInTheDocument();
+
+    rerender(
+      <FormProvider initialValues={{ age: 0 }} age={-3}>
+        <Age />
+      </FormProvider>
+    );
+
+    expect(getByText('age: 3, errors: 1')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,95 @@
+import { atom } from 'jotai';
+
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+
+/**
+ * 校验问题，与 Standard Schema 的 issue 兼容。
+ */
+export type ValidationIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * Standard Schema (https://standardschema.dev) 接口中本库用到的部分，zod、valibot 等库的 schema 都实现了该接口。
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardResult<Output> | Promise<StandardResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+/**
+ * 值无效时的处理方式：
+ * - reject：不写入无效的值。
+ * - coerce：写入 schema 输出的值（例如 `z.coerce.number()` 转换后的值），不写入无效的值。
+ * - flag：总是写入输入的值，只记录校验问题。
+ */
+export type ValidationPolicy = 'reject' | 'coerce' | 'flag';
+
+/**
+ * 校验选项。校验在设置、初始化和同步 Provider 属性时执行。
+ */
+export type ValidateOptions<T> = {
+  schemas: { [K in keyof T]?: StandardSchemaV1<any, T[K]> };
+  /**
+   * Defaults to `'reject'`.
+   */
+  policy?: ValidationPolicy;
+};
+
+/**
+ * 没有校验器的键共享的错误原子，总是没有校验问题。
+ */
+const noIssuesAtom: Atom<readonly ValidationIssue[]> = atom([]);
+
+/**
+ * Wraps a writable atom so that written values are validated against a
+ * Standard Schema. The returned `issuesAtom` holds the issues of the last
+ * written value. Without a schema, the atom is returned unchanged.
+ */
+export const atomWithValidation = <V>(
+  baseAtom: WritableAtom<V, [V], void>,
+  schema: StandardSchemaV1<any, V> | undefined,
+  policy: ValidationPolicy = 'reject'
+): {
+  atom: WritableAtom<V, [V], void>;
+  issuesAtom: Atom<readonly ValidationIssue[]>;
+} => {
+  if (!schema) return { atom: baseAtom, issuesAtom: noIssuesAtom };
+
+  const issuesAtom = atom<readonly ValidationIssue[]>([]);
+
+  const validatedAtom = atom(
+    (get) => get(baseAtom),
+    (_get, set, value: V) => {
+      const result = schema['~standard'].validate(value);
+
+      if (result instanceof Promise) {
+        throw new TypeError(
+          `Schema validation of atom '${validatedAtom}' must be synchronous.`
+        );
+      }
+
+      set(issuesAtom, result.issues ?? []);
+
+      if (result.issues) {
+        if (policy === 'flag') set(baseAtom, value);
+        return;
+      }
+
+      set(baseAtom, policy === 'coerce' ? result.value : value);
+    }
+  );
+
+  return { atom: validatedAtom, issuesAtom };
+};